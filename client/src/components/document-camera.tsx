@@ -0,0 +1,204 @@
+import { useState, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Camera, Flashlight, FlashlightOff, X } from "lucide-react";
+import { assessCardFrame, cardGuide, ANALYSIS_WIDTH, CARD_HINT_LABELS, MAX_GLARE, type CardFrameAssessment } from "@/lib/card-detection";
+import { AutoCapture, dataUrlToFile, grabGray, measureGlare } from "@/lib/frame-quality";
+import { webcamService, HIGHEST_RESOLUTION } from "@/lib/webcam";
+
+interface DocumentCameraProps {
+  side: "front" | "back";
+  onCapture: (file: File) => void;
+  onCancel: () => void;
+}
+
+// How often the live preview is checked, and how long the card must stay aligned and sharp
+const CHECK_INTERVAL_MS = 200;
+const AUTO_CAPTURE_HOLD_MS = 1000;
+// Photos are sent at full camera resolution, so text stays legible for OCR
+const SNAPSHOT_QUALITY = 0.92;
+
+export default function DocumentCamera({ side, onCapture, onCancel }: DocumentCameraProps) {
+  const [streaming, setStreaming] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [assessment, setAssessment] = useState<CardFrameAssessment | null>(null);
+  const [autoCaptureEnabled, setAutoCaptureEnabled] = useState(true);
+  const [holdProgress, setHoldProgress] = useState(0);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const autoCapture = useRef(new AutoCapture({ holdMs: AUTO_CAPTURE_HOLD_MS }));
+  const captured = useRef(false);
+
+  // The rear camera at its highest resolution; desktops fall back to whatever camera they have
+  useEffect(() => {
+    let cancelled = false;
+    webcamService.startCamera({ facingMode: 'environment', ...HIGHEST_RESOLUTION })
+      .then(async stream => {
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setTorchSupported(webcamService.supportsTorch());
+        setStreaming(true);
+      })
+      .catch(error => {
+        if (!cancelled) setCameraError(error.message);
+      });
+
+    return () => {
+      cancelled = true;
+      webcamService.stopCamera();
+    };
+  }, []);
+
+  const snapshot = () => videoRef.current ? webcamService.snapshot(videoRef.current, SNAPSHOT_QUALITY) : null;
+
+  const finish = async (image: string) => {
+    if (captured.current) return;
+    captured.current = true;
+    onCapture(await dataUrlToFile(image, `document-${side}.jpg`));
+  };
+
+  // Manual shots skip the alignment checks but not the glare check
+  const captureNow = () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return;
+    const glare = measureGlare(grabGray(video, cardGuide(video.videoWidth, video.videoHeight), ANALYSIS_WIDTH));
+    if (glare > MAX_GLARE) {
+      setNotice(CARD_HINT_LABELS.glare);
+      return;
+    }
+    const image = snapshot();
+    if (image) finish(image);
+  };
+
+  const toggleTorch = async () => {
+    try {
+      await webcamService.setTorch(!torchOn);
+      setTorchOn(!torchOn);
+    } catch (error) {
+      setTorchSupported(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!streaming) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    autoCapture.current.reset();
+
+    const check = () => {
+      const video = videoRef.current;
+      if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0) {
+        const frame = { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight };
+        const result = assessCardFrame(
+          grabGray(video, frame, ANALYSIS_WIDTH),
+          grabGray(video, cardGuide(frame.width, frame.height), ANALYSIS_WIDTH),
+        );
+        setAssessment(result);
+        if (result.hint !== 'glare') setNotice(null);
+
+        if (autoCaptureEnabled) {
+          const image = autoCapture.current.offer(result.ready, result.quality.sharpness, snapshot);
+          setHoldProgress(autoCapture.current.progress());
+          if (image) {
+            finish(image);
+            return;
+          }
+        }
+      }
+      if (!cancelled) timer = setTimeout(check, CHECK_INTERVAL_MS);
+    };
+    check();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setHoldProgress(0);
+    };
+  }, [streaming, autoCaptureEnabled]);
+
+  const ready = !!assessment?.ready;
+  // The guide as shares of the preview, which shows the whole frame
+  const video = videoRef.current;
+  const guide = streaming && video && video.videoWidth > 0
+    ? cardGuide(video.videoWidth, video.videoHeight)
+    : null;
+
+  if (cameraError) {
+    return (
+      <div className="text-center space-y-4">
+        <p className="text-sm text-error-red">{cameraError}</p>
+        <Button variant="outline" onClick={onCancel} className="px-6 py-2">
+          Choose a File Instead
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-center">
+      <div className="relative mx-auto mb-4 w-full max-w-xl rounded-lg overflow-hidden bg-black">
+        <video ref={videoRef} playsInline muted className="w-full h-auto" />
+        {guide && video && (
+          <div
+            className={`absolute rounded-xl border-4 pointer-events-none transition-colors ${ready ? "border-green-500" : "border-white"}`}
+            style={{
+              left: `${(guide.x / video.videoWidth) * 100}%`,
+              top: `${(guide.y / video.videoHeight) * 100}%`,
+              width: `${(guide.width / video.videoWidth) * 100}%`,
+              height: `${(guide.height / video.videoHeight) * 100}%`,
+              boxShadow: "0 0 0 9999px rgba(0, 0, 0, 0.35)",
+            }}
+          />
+        )}
+        <div className="absolute bottom-0 left-0 right-0 bg-black/60 text-white text-sm font-medium py-1">
+          {notice
+            ? notice
+            : !assessment
+              ? "Starting camera..."
+              : assessment.hint
+                ? CARD_HINT_LABELS[assessment.hint]
+                : autoCaptureEnabled ? "Hold still..." : "Ready, take the photo"}
+        </div>
+        {autoCaptureEnabled && holdProgress > 0 && (
+          <div className="absolute top-0 left-0 h-1 bg-green-500" style={{ width: `${holdProgress * 100}%` }} />
+        )}
+        {torchSupported && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={toggleTorch}
+            className="absolute top-3 right-3"
+            aria-label={torchOn ? "Turn torch off" : "Turn torch on"}
+          >
+            {torchOn ? <FlashlightOff size={16} /> : <Flashlight size={16} />}
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center justify-center space-x-2 mb-4">
+        <Switch id="document-auto-capture" checked={autoCaptureEnabled} onCheckedChange={setAutoCaptureEnabled} />
+        <label htmlFor="document-auto-capture" className="text-sm text-gray-700">
+          Take the photo automatically when the {side === "back" ? "back of your ID" : "ID"} is in focus
+        </label>
+      </div>
+
+      <div className="flex justify-center space-x-4">
+        <Button variant="outline" onClick={onCancel} className="px-6 py-2">
+          <X size={16} className="mr-2" />
+          Cancel
+        </Button>
+        <Button
+          onClick={captureNow}
+          disabled={!streaming}
+          className="bg-primary-blue hover:bg-primary-blue-dark text-white px-6 py-2"
+        >
+          <Camera size={16} className="mr-2" />
+          Take Photo
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -2,38 +2,103 @@ import { useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
-import { CloudUpload, CheckCircle2, FileText, X, Trash2 } from "lucide-react";
+import { CloudUpload, CheckCircle2, FileText, X, Trash2, RotateCcw, Camera } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import DocumentCamera from "./document-camera";
 
 interface DocumentUploadProps {
   onDocumentUploaded: (verificationId: number, extractedData: any) => void;
+  // Set on a phone continuing a desktop's verification, so the desktop can follow along
+  handoffSessionId?: string;
 }
 
-export default function DocumentUpload({ onDocumentUploaded }: DocumentUploadProps) {
+type DocumentSide = "front" | "back";
+
+// Aadhaar Paperless Offline e-KYC downloads
+function isEkycZip(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip');
+}
+
+export default function DocumentUpload({ onDocumentUploaded, handoffSessionId }: DocumentUploadProps) {
+  // Two-sided IDs are captured front first, then back, on the same record
+  const [side, setSide] = useState<DocumentSide>("front");
+  const [frontResult, setFrontResult] = useState<{ verificationId: number; extractedData: any } | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [pdfPassword, setPdfPassword] = useState("");
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [shareCode, setShareCode] = useState("");
+  const [shareCodeInvalid, setShareCodeInvalid] = useState(false);
+  const [cameraOpen, setCameraOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  const isPdf = selectedFile?.type === 'application/pdf';
+  const isZip = selectedFile ? isEkycZip(selectedFile) : false;
+  const isBack = side === "back";
+
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
+      if (handoffSessionId && !isBack) {
+        formData.append('handoffSessionId', handoffSessionId);
+      }
+      if (isEkycZip(file)) {
+        formData.append('ekyc', file);
+        formData.append('shareCode', shareCode);
+        const response = await fetch('/api/upload-ekyc', {
+          method: 'POST',
+          body: formData,
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          if (body?.code === 'ekyc_share_code_required' || body?.code === 'ekyc_share_code_incorrect') {
+            setShareCodeInvalid(true);
+          }
+          throw new Error(body?.message || 'Failed to upload Offline e-KYC file');
+        }
+
+        return response.json();
+      }
+
       formData.append('document', file);
+      if (file.type === 'application/pdf' && pdfPassword) {
+        formData.append('pdfPassword', pdfPassword);
+      }
+      if (isBack && frontResult) {
+        formData.append('verificationId', frontResult.verificationId.toString());
+      }
       
-      const response = await fetch('/api/upload-document', {
+      const response = await fetch(isBack ? '/api/upload-document-back' : '/api/upload-document', {
         method: 'POST',
         body: formData,
       });
       
       if (!response.ok) {
-        throw new Error('Failed to upload document');
+        const body = await response.json().catch(() => null);
+        if (body?.code === 'pdf_password_required' || body?.code === 'pdf_password_incorrect') {
+          setPasswordRequired(true);
+        }
+        throw new Error(body?.message || 'Failed to upload document');
       }
       
       return response.json();
     },
     onSuccess: (data) => {
+      if (!isBack && data.extractedData?.backSideExpected) {
+        toast({
+          title: "Front side processed",
+          description: "Now upload the back of your ID.",
+        });
+        setFrontResult({ verificationId: data.verificationId, extractedData: data.extractedData });
+        setSide("back");
+        removeFile();
+        return;
+      }
+
       toast({
         title: "Document uploaded successfully",
         description: "Your document has been processed and information extracted.",
@@ -70,10 +135,19 @@ export default function DocumentUpload({ onDocumentUploaded }: DocumentUploadPro
   };
 
   const handleFileSelect = (file: File) => {
-    if (!file.type.startsWith('image/')) {
+    if (isBack && !file.type.startsWith('image/')) {
+      toast({
+        title: "Invalid file type",
+        description: "Please select a JPEG or PNG photo of the back of your ID.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!file.type.startsWith('image/') && file.type !== 'application/pdf' && !isEkycZip(file)) {
       toast({
         title: "Invalid file type",
-        description: "Please select a JPEG or PNG image file.",
+        description: "Please select a JPEG or PNG image, a PDF, or an Aadhaar Offline e-KYC ZIP.",
         variant: "destructive",
       });
       return;
@@ -89,10 +163,21 @@ export default function DocumentUpload({ onDocumentUploaded }: DocumentUploadPro
     }
 
     setSelectedFile(file);
+    setPdfPassword("");
+    setPasswordRequired(false);
+    setShareCode("");
+    setShareCodeInvalid(false);
     
-    // Create preview URL
-    const url = URL.createObjectURL(file);
-    setPreviewUrl(url);
+    // Create preview URL (PDFs are not previewed)
+    if (file.type.startsWith('image/')) {
+      const url = URL.createObjectURL(file);
+      setPreviewUrl(url);
+    }
+  };
+
+  const handleCameraCapture = (file: File) => {
+    setCameraOpen(false);
+    handleFileSelect(file);
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -103,6 +188,10 @@ export default function DocumentUpload({ onDocumentUploaded }: DocumentUploadPro
 
   const removeFile = () => {
     setSelectedFile(null);
+    setPdfPassword("");
+    setPasswordRequired(false);
+    setShareCode("");
+    setShareCodeInvalid(false);
     if (previewUrl) {
       URL.revokeObjectURL(previewUrl);
       setPreviewUrl(null);
@@ -118,21 +207,42 @@ export default function DocumentUpload({ onDocumentUploaded }: DocumentUploadPro
     }
   };
 
+  // The back is optional; skipping keeps what was read from the front
+  const skipBackSide = () => {
+    if (frontResult) {
+      onDocumentUploaded(frontResult.verificationId, frontResult.extractedData);
+    }
+  };
+
   return (
     <div className="verification-step active bg-white rounded-lg shadow-md p-6 border border-gray-200">
       <div className="flex items-center mb-4">
         <div className="w-8 h-8 bg-primary-blue rounded-full flex items-center justify-center mr-3">
           <span className="text-white text-sm font-medium">1</span>
         </div>
-        <h3 className="text-lg font-medium text-gray-900">Upload Government ID Document</h3>
+        <h3 className="text-lg font-medium text-gray-900">
+          {isBack ? "Upload the Back of Your ID" : "Upload Government ID Document"}
+        </h3>
       </div>
       
-      <p className="text-gray-600 mb-6">
-        Please upload a clear photo of your government-issued ID (Aadhar Card, Driver's License, Passport). 
-        Ensure all text is clearly visible.
-      </p>
+      {isBack ? (
+        <div className="flex items-start space-x-3 p-3 mb-6 bg-blue-50 rounded-lg">
+          <RotateCcw className="text-primary-blue mt-0.5 flex-shrink-0" size={20} />
+          <p className="text-gray-600">
+            Front side processed. Turn your card over and upload a clear photo of the back. It carries
+            details such as your address that are not printed on the front.
+          </p>
+        </div>
+      ) : (
+        <p className="text-gray-600 mb-6">
+          Please upload a clear photo or PDF of your government-issued ID (Aadhar Card, Driver's License, Passport). 
+          Ensure all text is clearly visible.
+        </p>
+      )}
       
-      {!selectedFile ? (
+      {cameraOpen && !selectedFile ? (
+        <DocumentCamera side={side} onCapture={handleCameraCapture} onCancel={() => setCameraOpen(false)} />
+      ) : !selectedFile ? (
         <div
           className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
             dragActive 
@@ -150,27 +260,37 @@ export default function DocumentUpload({ onDocumentUploaded }: DocumentUploadPro
             </div>
             <div>
               <p className="text-lg font-medium text-gray-900">
-                Drag and drop your ID document here
+                {isBack ? "Drag and drop the back of your ID here" : "Drag and drop your ID document here"}
               </p>
               <p className="text-gray-500">or click to browse files</p>
             </div>
-            <div className="flex justify-center">
+            <div className="flex justify-center space-x-3">
               <Button 
                 onClick={() => fileInputRef.current?.click()}
                 className="bg-primary-blue hover:bg-primary-blue-dark text-white px-6 py-2"
               >
                 Select File
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => setCameraOpen(true)}
+                className="px-6 py-2"
+              >
+                <Camera size={16} className="mr-2" />
+                Use Camera
+              </Button>
               <Input
                 ref={fileInputRef}
                 type="file"
-                accept="image/*"
+                accept={isBack ? "image/*" : "image/*,application/pdf,.zip,application/zip"}
                 onChange={handleFileInputChange}
                 className="hidden"
               />
             </div>
             <p className="text-xs text-gray-400">
-              Supported formats: JPEG, PNG (Max 10MB)
+              {isBack
+                ? "Supported formats: JPEG, PNG (Max 10MB)"
+                : "Supported formats: JPEG, PNG, PDF including e-Aadhaar, Aadhaar Offline e-KYC ZIP (Max 10MB)"}
             </p>
           </div>
         </div>
@@ -178,12 +298,16 @@ export default function DocumentUpload({ onDocumentUploaded }: DocumentUploadPro
         <Card className="p-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
-              {previewUrl && (
+              {previewUrl ? (
                 <img
                   src={previewUrl}
                   alt="Document preview"
                   className="w-24 h-16 object-cover rounded border"
                 />
+              ) : (
+                <div className="w-24 h-16 rounded border bg-gray-50 flex items-center justify-center">
+                  <FileText className="text-gray-400" size={28} />
+                </div>
               )}
               <div>
                 <p className="font-medium text-gray-900">{selectedFile.name}</p>
@@ -205,6 +329,44 @@ export default function DocumentUpload({ onDocumentUploaded }: DocumentUploadPro
               <Trash2 size={16} />
             </Button>
           </div>
+          {isPdf && (
+            <div className="mt-4 space-y-1">
+              <label htmlFor="pdf-password" className="text-sm font-medium text-gray-700">
+                PDF password {passwordRequired ? "(required)" : "(if protected)"}
+              </label>
+              <Input
+                id="pdf-password"
+                type="password"
+                autoComplete="off"
+                value={pdfPassword}
+                onChange={(e) => setPdfPassword(e.target.value)}
+                className={passwordRequired ? "border-error-red" : ""}
+              />
+              <p className="text-xs text-gray-500">
+                For e-Aadhaar, this is the first 4 letters of your name in capitals followed by your year of birth.
+              </p>
+            </div>
+          )}
+          {isZip && (
+            <div className="mt-4 space-y-1">
+              <label htmlFor="share-code" className="text-sm font-medium text-gray-700">
+                Share code
+              </label>
+              <Input
+                id="share-code"
+                type="password"
+                inputMode="numeric"
+                maxLength={4}
+                autoComplete="off"
+                value={shareCode}
+                onChange={(e) => setShareCode(e.target.value.replace(/\D/g, ''))}
+                className={shareCodeInvalid ? "border-error-red" : ""}
+              />
+              <p className="text-xs text-gray-500">
+                The 4-digit code you chose when downloading the Offline e-KYC ZIP from the UIDAI website.
+              </p>
+            </div>
+          )}
         </Card>
       )}
 
@@ -223,13 +385,23 @@ export default function DocumentUpload({ onDocumentUploaded }: DocumentUploadPro
         </div>
       </div>
 
-      <div className="mt-6 flex justify-end">
+      <div className="mt-6 flex justify-end space-x-3">
+        {isBack && (
+          <Button
+            variant="outline"
+            onClick={skipBackSide}
+            disabled={uploadMutation.isPending}
+            className="px-6 py-3"
+          >
+            Skip
+          </Button>
+        )}
         <Button
           onClick={handleUpload}
-          disabled={!selectedFile || uploadMutation.isPending}
+          disabled={!selectedFile || (isZip && shareCode.length !== 4) || uploadMutation.isPending}
           className="bg-primary-blue hover:bg-primary-blue-dark text-white px-8 py-3 disabled:bg-gray-300 disabled:cursor-not-allowed"
         >
-          {uploadMutation.isPending ? "Processing..." : "Process Document"}
+          {uploadMutation.isPending ? "Processing..." : isBack ? "Process Back Side" : "Process Document"}
         </Button>
       </div>
     </div>
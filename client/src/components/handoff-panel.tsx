@@ -0,0 +1,182 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, Circle, RefreshCw, Smartphone } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { handoffSteps, type HandoffStep, type HandoffUpdate } from "@shared/schema";
+
+interface HandoffPanelProps {
+  // Set when the ID is already uploaded here, so the phone only takes the selfie
+  verificationId: number | null;
+  onUpdate: (update: HandoffUpdate) => void;
+}
+
+interface HandoffStart extends HandoffUpdate {
+  sessionId: string;
+  url: string;
+  qrCode: string; // PNG data URL
+  expiresAt: string;
+}
+
+// What the desktop shows once the phone has connected
+const PHONE_STEPS: { step: HandoffStep; label: string }[] = [
+  { step: "connected", label: "Phone connected" },
+  { step: "document_uploaded", label: "ID uploaded" },
+  { step: "selfie_uploaded", label: "Selfie taken" },
+  { step: "liveness_passed", label: "Liveness check passed" },
+];
+
+function reached(current: HandoffStep, step: HandoffStep): boolean {
+  return handoffSteps.indexOf(current) >= handoffSteps.indexOf(step);
+}
+
+// Offers to move capture to a phone: shows a QR code with a single-use link, then
+// follows the phone's progress over server-sent events
+export default function HandoffPanel({ verificationId, onUpdate }: HandoffPanelProps) {
+  const [handoff, setHandoff] = useState<HandoffStart | null>(null);
+  const [step, setStep] = useState<HandoffStep>("waiting");
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [connectionLost, setConnectionLost] = useState(false);
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  const startMutation = useMutation({
+    mutationFn: async (): Promise<HandoffStart> => {
+      const response = await fetch('/api/handoff', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ verificationId: verificationId ?? undefined }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to create a code for your phone');
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setHandoff(data);
+      setStep(data.step);
+      setConnectionLost(false);
+    },
+  });
+
+  useEffect(() => {
+    if (!handoff) return;
+    const source = new EventSource(`/api/handoff/${handoff.sessionId}/events`);
+    source.onmessage = (event) => {
+      const update: HandoffUpdate = JSON.parse(event.data);
+      setStep(update.step);
+      onUpdateRef.current(update);
+      if (update.step === "completed") source.close();
+    };
+    // EventSource reconnects by itself; it only closes when the session is gone
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) setConnectionLost(true);
+    };
+
+    return () => source.close();
+  }, [handoff]);
+
+  // The code can only be scanned for a few minutes
+  useEffect(() => {
+    if (!handoff || step !== "waiting") return;
+    const update = () => setSecondsLeft(Math.max(0, Math.round((Date.parse(handoff.expiresAt) - Date.now()) / 1000)));
+    update();
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [handoff, step]);
+
+  if (!handoff) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-start space-x-3">
+            <Smartphone className="text-primary-blue mt-1 flex-shrink-0" size={20} />
+            <div>
+              <h4 className="font-medium text-gray-900">No camera on this computer?</h4>
+              <p className="text-sm text-gray-600">
+                Scan a code with your phone to photograph your ID and take your selfie there. This page follows along.
+              </p>
+              {startMutation.isError && (
+                <p className="text-sm text-error-red mt-1">{startMutation.error.message}</p>
+              )}
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => startMutation.mutate()}
+            disabled={startMutation.isPending}
+            className="px-6 py-2 flex-shrink-0"
+          >
+            {startMutation.isPending ? "Creating code..." : "Continue on your phone"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === "waiting") {
+    const expired = secondsLeft === 0;
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 text-center">
+        <h4 className="font-medium text-gray-900 mb-1">Scan with your phone's camera</h4>
+        <p className="text-sm text-gray-600 mb-4">
+          The link works once and opens this verification on your phone.
+        </p>
+        <img
+          src={handoff.qrCode}
+          alt="QR code to continue on your phone"
+          className={`w-48 h-48 mx-auto mb-4 ${expired ? "opacity-20" : ""}`}
+        />
+        <p className="text-sm text-gray-500 mb-4">
+          {expired
+            ? "This code has expired."
+            : `Expires in ${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, "0")}`}
+        </p>
+        {(expired || connectionLost) && (
+          <Button
+            variant="outline"
+            onClick={() => startMutation.mutate()}
+            disabled={startMutation.isPending}
+            className="px-6 py-2"
+          >
+            <RefreshCw size={16} className="mr-2" />
+            Show a new code
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
+      <div className="flex items-center mb-4">
+        <div className="w-8 h-8 bg-primary-blue rounded-full flex items-center justify-center mr-3">
+          <Smartphone className="text-white" size={16} />
+        </div>
+        <h3 className="text-lg font-medium text-gray-900">Continue on your phone</h3>
+      </div>
+      <p className="text-gray-600 mb-4">
+        Follow the steps on your phone. This page updates as each one is done.
+      </p>
+      <ul className="space-y-2">
+        {PHONE_STEPS.map(({ step: phoneStep, label }) => (
+          <li key={phoneStep} className="flex items-center text-sm">
+            {reached(step, phoneStep)
+              ? <CheckCircle2 className="text-green-600 mr-2" size={16} />
+              : <Circle className="text-gray-300 mr-2" size={16} />}
+            <span className={reached(step, phoneStep) ? "text-gray-900" : "text-gray-500"}>{label}</span>
+          </li>
+        ))}
+      </ul>
+      {connectionLost && (
+        <p className="text-sm text-error-red mt-4">
+          Lost contact with your phone. You can still finish there, or reload this page to start again.
+        </p>
+      )}
+    </div>
+  );
+}
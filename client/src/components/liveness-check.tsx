@@ -0,0 +1,157 @@
+import { useState, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { ScanFace, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import Webcam from "react-webcam";
+import type { LivenessPrompt } from "@shared/schema";
+
+interface LivenessCheckProps {
+  verificationId: number;
+  onPassed: () => void;
+}
+
+interface LivenessResponse {
+  outcome: 'passed' | 'failed';
+  score: number;
+  result: { reasons: string[] };
+}
+
+const PROMPT_LABELS: Record<LivenessPrompt, string> = {
+  blink: "Blink slowly",
+  turn_left: "Turn your head to your left",
+  turn_right: "Turn your head to your right",
+  smile: "Smile",
+};
+
+const REASON_LABELS: Record<string, string> = {
+  too_few_frames: "The recording was too short.",
+  face_missing: "Your face left the frame. Keep it in view throughout.",
+  multiple_faces: "More than one face was visible.",
+  prompt_not_performed: "Not every action was seen. Make each movement clearly.",
+  different_person: "The person on camera did not match your selfie.",
+  no_face: "Your face could not be compared with your selfie. Face the camera in good light.",
+};
+
+// The server expects a neutral pose first, then each prompt in turn
+const NEUTRAL_MS = 1200;
+const PROMPT_MS = 2500;
+const FRAME_INTERVAL_MS = 150;
+const FRAME_SIZE = { width: 320, height: 240 };
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export default function LivenessCheck({ verificationId, onPassed }: LivenessCheckProps) {
+  const [instruction, setInstruction] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [failures, setFailures] = useState<string[]>([]);
+  const webcamRef = useRef<Webcam>(null);
+  const { toast } = useToast();
+
+  // Grabs frames until the step's time is up
+  const record = async (frames: string[], duration: number) => {
+    const end = Date.now() + duration;
+    while (Date.now() < end) {
+      const frame = webcamRef.current?.getScreenshot(FRAME_SIZE);
+      if (frame) frames.push(frame);
+      await wait(FRAME_INTERVAL_MS);
+    }
+  };
+
+  const runChallenge = async () => {
+    setRunning(true);
+    setFailures([]);
+    try {
+      const challengeResponse = await fetch(`/api/verification/${verificationId}/liveness-challenge`, { method: 'POST' });
+      if (!challengeResponse.ok) {
+        throw new Error('Failed to start the liveness check');
+      }
+      const challenge: { challengeId: string; prompts: LivenessPrompt[] } = await challengeResponse.json();
+
+      const frames: string[] = [];
+      setInstruction("Look straight at the camera");
+      await record(frames, NEUTRAL_MS);
+      for (const prompt of challenge.prompts) {
+        setInstruction(PROMPT_LABELS[prompt]);
+        await record(frames, PROMPT_MS);
+      }
+      setInstruction("Checking...");
+
+      const formData = new FormData();
+      formData.append('challengeId', challenge.challengeId);
+      formData.append('mirrored', 'true');
+      for (let index = 0; index < frames.length; index++) {
+        const blob = await (await fetch(frames[index])).blob();
+        formData.append('frames', blob, `frame-${index}.jpg`);
+      }
+
+      const response = await fetch(`/api/verification/${verificationId}/liveness`, {
+        method: 'POST',
+        body: formData,
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to check liveness');
+      }
+
+      const liveness: LivenessResponse = await response.json();
+      if (liveness.outcome === 'passed') {
+        toast({
+          title: "Liveness confirmed",
+          description: "Thanks, we could see you are present.",
+        });
+        onPassed();
+      } else {
+        setFailures(liveness.result.reasons.map(reason => REASON_LABELS[reason] || reason));
+      }
+    } catch (error) {
+      toast({
+        title: "Liveness check failed",
+        description: (error as Error).message || "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setInstruction(null);
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="w-80 h-60 mx-auto mb-4 rounded-lg overflow-hidden relative">
+        <Webcam
+          ref={webcamRef}
+          audio={false}
+          screenshotFormat="image/jpeg"
+          className="w-full h-full object-cover"
+          mirrored={true}
+        />
+        {instruction && (
+          <div className="absolute bottom-0 left-0 right-0 bg-black/60 text-white text-lg font-medium py-2">
+            {instruction}
+          </div>
+        )}
+      </div>
+
+      {failures.length > 0 && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-left text-sm text-red-800">
+          <p className="font-medium mb-1">We could not confirm you are present:</p>
+          <ul className="space-y-1">
+            {failures.map(failure => <li key={failure}>• {failure}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600 mb-4">
+        Follow the prompts on screen. This shows a real person is taking the selfie.
+      </p>
+      <Button
+        onClick={runChallenge}
+        disabled={running}
+        className="bg-primary-blue hover:bg-primary-blue-dark text-white px-8 py-3"
+      >
+        {failures.length > 0 ? <RotateCcw size={20} className="mr-2" /> : <ScanFace size={20} className="mr-2" />}
+        {running ? "Follow the prompts..." : failures.length > 0 ? "Try Again" : "Start Liveness Check"}
+      </Button>
+    </div>
+  );
+}
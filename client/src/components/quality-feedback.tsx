@@ -2,6 +2,7 @@ import { AlertTriangle, CheckCircle, Info } from "lucide-react";
 
 interface QualityFeedbackProps {
   feedback: {
+    document?: string[];
     face?: string[];
     age?: string[];
     overall?: string[];
@@ -10,6 +11,7 @@ interface QualityFeedbackProps {
 
 export default function QualityFeedback({ feedback }: QualityFeedbackProps) {
   const allFeedback = [
+    ...(feedback.document || []),
     ...(feedback.face || []),
     ...(feedback.age || []),
     ...(feedback.overall || [])
@@ -27,6 +29,20 @@ export default function QualityFeedback({ feedback }: QualityFeedbackProps) {
       </h4>
       
       <div className="space-y-2">
+        {feedback.document && feedback.document.length > 0 && (
+          <div className="p-3 bg-red-50 rounded-lg border border-red-200">
+            <h5 className="font-medium text-red-900 text-sm mb-2">Document Checks</h5>
+            <ul className="space-y-1">
+              {feedback.document.map((item, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm text-red-800">
+                  <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+                  <span>{item}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {feedback.face && feedback.face.length > 0 && (
           <div className="p-3 bg-blue-50 rounded-lg border border-blue-200">
             <h5 className="font-medium text-blue-900 text-sm mb-2">Face Analysis</h5>
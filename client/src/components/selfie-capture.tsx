@@ -1,22 +1,97 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
 import { Card } from "@/components/ui/card";
 import { Camera, RotateCcw, Check } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import Webcam from "react-webcam";
+import LivenessCheck from "./liveness-check";
+import QualityFeedback from "./quality-feedback";
+import { faceDetector, CAPTURE_HINT_LABELS, FACE_OVAL, type FrameGuidance } from "@/lib/face-detection";
+import { AutoCapture } from "@/lib/frame-quality";
+
+// How often the live preview is checked for framing and lighting
+const GUIDANCE_INTERVAL_MS = 250;
+// How long the face must stay framed and sharp before it is captured automatically
+const AUTO_CAPTURE_HOLD_MS = 1000;
 
 interface SelfieCaptureProps {
   verificationId: number;
   onSelfieUploaded: () => void;
 }
 
+// The server turns away selfies without one clear face, or that look like a photo of a screen or print, with guidance
+class SelfieRejectedError extends Error {
+  feedback: { face?: string[] };
+
+  constructor(message: string, feedback: { face?: string[] }) {
+    super(message);
+    this.name = 'SelfieRejectedError';
+    this.feedback = feedback;
+  }
+}
+
 export default function SelfieCapture({ verificationId, onSelfieUploaded }: SelfieCaptureProps) {
   const [cameraActive, setCameraActive] = useState(false);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [livenessActive, setLivenessActive] = useState(false);
+  const [rejection, setRejection] = useState<{ face?: string[] } | null>(null);
+  const [guidance, setGuidance] = useState<FrameGuidance | null>(null);
+  // Without the in-browser model, capture is allowed and the server checks the selfie
+  const [guidanceUnavailable, setGuidanceUnavailable] = useState(false);
+  const [autoCaptureEnabled, setAutoCaptureEnabled] = useState(true);
+  const [holdProgress, setHoldProgress] = useState(0);
   const webcamRef = useRef<Webcam>(null);
+  const autoCapture = useRef(new AutoCapture({ holdMs: AUTO_CAPTURE_HOLD_MS }));
   const { toast } = useToast();
 
+  const previewing = cameraActive && !capturedImage && !livenessActive;
+
+  // Checks the live preview until a frame is captured
+  useEffect(() => {
+    if (!previewing || guidanceUnavailable) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    autoCapture.current.reset();
+
+    const check = async () => {
+      const video = webcamRef.current?.video;
+      if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        try {
+          const result = await faceDetector.assessFrame(video);
+          if (cancelled) return;
+          setGuidance(result);
+
+          if (autoCaptureEnabled) {
+            const image = autoCapture.current.offer(result.ready, result.sharpness, () => webcamRef.current?.getScreenshot() ?? null);
+            setHoldProgress(autoCapture.current.progress());
+            if (image) {
+              setCapturedImage(image);
+              return;
+            }
+          }
+        } catch (error) {
+          console.error('Live face guidance unavailable:', error);
+          if (!cancelled) setGuidanceUnavailable(true);
+          return;
+        }
+      }
+      if (!cancelled) timer = setTimeout(check, GUIDANCE_INTERVAL_MS);
+    };
+    check();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setGuidance(null);
+      setHoldProgress(0);
+    };
+  }, [previewing, guidanceUnavailable, autoCaptureEnabled]);
+
+  // Manual capture needs framing and light but not auto-capture's sharpness, as a fallback for soft webcams
+  const canCapture = guidanceUnavailable || !!guidance?.ready || guidance?.hint === 'blurry';
+
   const uploadMutation = useMutation({
     mutationFn: async (imageData: string) => {
       // Convert base64 to blob
@@ -32,6 +107,10 @@ export default function SelfieCapture({ verificationId, onSelfieUploaded }: Self
         body: formData,
       });
       
+      if (uploadResponse.status === 422) {
+        const error = await uploadResponse.json();
+        throw new SelfieRejectedError(error.message, error.feedback || {});
+      }
       if (!uploadResponse.ok) {
         throw new Error('Failed to upload selfie');
       }
@@ -39,13 +118,18 @@ export default function SelfieCapture({ verificationId, onSelfieUploaded }: Self
       return uploadResponse.json();
     },
     onSuccess: () => {
+      setRejection(null);
       toast({
         title: "Selfie uploaded successfully",
-        description: "Your selfie has been captured and uploaded.",
+        description: "Next, a quick liveness check.",
       });
-      onSelfieUploaded();
+      setLivenessActive(true);
     },
     onError: (error) => {
+      if (error instanceof SelfieRejectedError) {
+        setRejection(error.feedback);
+        setCapturedImage(null);
+      }
       toast({
         title: "Upload failed",
         description: error.message || "Failed to upload selfie. Please try again.",
@@ -89,7 +173,11 @@ export default function SelfieCapture({ verificationId, onSelfieUploaded }: Self
       </p>
       
       <div className="bg-gray-50 rounded-lg p-8 text-center">
-        {!cameraActive && !capturedImage && (
+        {livenessActive && (
+          <LivenessCheck verificationId={verificationId} onPassed={onSelfieUploaded} />
+        )}
+
+        {!livenessActive && !cameraActive && !capturedImage && (
           <div>
             <div className="w-64 h-64 bg-gray-200 rounded-full mx-auto mb-4 flex items-center justify-center">
               <Camera className="text-gray-400" size={64} />
@@ -104,9 +192,9 @@ export default function SelfieCapture({ verificationId, onSelfieUploaded }: Self
           </div>
         )}
 
-        {cameraActive && !capturedImage && (
+        {!livenessActive && cameraActive && !capturedImage && (
           <div>
-            <div className="w-80 h-60 mx-auto mb-4 rounded-lg overflow-hidden">
+            <div className="w-80 h-60 mx-auto mb-4 rounded-lg overflow-hidden relative">
               <Webcam
                 ref={webcamRef}
                 audio={false}
@@ -114,13 +202,51 @@ export default function SelfieCapture({ verificationId, onSelfieUploaded }: Self
                 className="w-full h-full object-cover"
                 mirrored={true}
               />
+              {!guidanceUnavailable && (
+                <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                  <defs>
+                    <mask id="face-oval-mask">
+                      <rect width="100" height="100" fill="white" />
+                      <ellipse cx="50" cy="50" rx={FACE_OVAL.width * 50} ry={FACE_OVAL.height * 50} fill="black" />
+                    </mask>
+                  </defs>
+                  <rect width="100" height="100" fill="black" fillOpacity="0.35" mask="url(#face-oval-mask)" />
+                  <ellipse
+                    cx="50"
+                    cy="50"
+                    rx={FACE_OVAL.width * 50}
+                    ry={FACE_OVAL.height * 50}
+                    fill="none"
+                    stroke={guidance?.ready ? "#22c55e" : "white"}
+                    strokeWidth="3"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </svg>
+              )}
+              {!guidanceUnavailable && (
+                <div className="absolute bottom-0 left-0 right-0 bg-black/60 text-white text-sm font-medium py-1">
+                  {!guidance ? "Starting face guide..." : guidance.hint ? CAPTURE_HINT_LABELS[guidance.hint] : "Hold still, looking good"}
+                </div>
+              )}
+              {autoCaptureEnabled && holdProgress > 0 && (
+                <div className="absolute top-0 left-0 h-1 bg-green-500" style={{ width: `${holdProgress * 100}%` }} />
+              )}
             </div>
             <div className="space-y-4">
               <p className="text-sm text-gray-600">
-                Position your face in the center and ensure good lighting
+                Position your face in the oval and ensure good lighting
               </p>
+              {!guidanceUnavailable && (
+                <div className="flex items-center justify-center space-x-2">
+                  <Switch id="selfie-auto-capture" checked={autoCaptureEnabled} onCheckedChange={setAutoCaptureEnabled} />
+                  <label htmlFor="selfie-auto-capture" className="text-sm text-gray-700">
+                    Take the selfie automatically when you are in focus
+                  </label>
+                </div>
+              )}
               <Button 
                 onClick={capture}
+                disabled={!canCapture}
                 className="bg-primary-blue hover:bg-primary-blue-dark text-white px-8 py-3"
               >
                 <Camera size={20} className="mr-2" />
@@ -130,7 +256,7 @@ export default function SelfieCapture({ verificationId, onSelfieUploaded }: Self
           </div>
         )}
 
-        {capturedImage && (
+        {!livenessActive && capturedImage && (
           <div>
             <div className="w-80 h-60 mx-auto mb-4 rounded-lg overflow-hidden">
               <img 
@@ -161,6 +287,8 @@ export default function SelfieCapture({ verificationId, onSelfieUploaded }: Self
         )}
       </div>
 
+      {!livenessActive && rejection && <QualityFeedback feedback={rejection} />}
+
       <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="font-medium text-gray-900 mb-2">Tips for a good selfie:</h4>
         <ul className="text-sm text-gray-600 space-y-1">
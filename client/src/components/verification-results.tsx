@@ -1,12 +1,14 @@
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { CheckCircle2, XCircle, Award, Download, RefreshCw } from "lucide-react";
+import { CheckCircle2, XCircle, Award, Download, RefreshCw, AlertTriangle, ShieldCheck } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { isProcessingElsewhere, readProcessVerificationResponse } from "@/lib/process-verification";
 import QualityFeedback from "./quality-feedback";
 import jsPDF from "jspdf";
 import html2canvas from "html2canvas";
+import type { AgeDecision, FieldConfidence, FieldConfidences } from "@shared/schema";
 
 interface VerificationResultsProps {
   verificationId: number;
@@ -19,22 +21,65 @@ interface VerificationRecord {
   faceMatchScore?: number;
   faceConfidence?: number;
   detectedAge?: number;
+  detectedAgeLow?: number;
+  detectedAgeHigh?: number;
+  ageSource?: string;
+  agePolicy?: string;
+  ageDecision?: AgeDecision;
   ageConfidence?: number;
   extractedAge?: number;
   ocrConfidence?: number;
   extractedName?: string;
   extractedDob?: string;
+  documentNumber?: string;
+  fieldConfidence?: FieldConfidences;
+  qrVerified?: boolean;
+  portraitPath?: string;
+  portraitSource?: string;
+  documentSource?: string;
+  assuranceLevel?: string;
   ocrLanguage?: string;
+  qualityFeedback?: string;
   completedAt?: string;
   results?: {
     feedback?: any;
   };
 }
 
+// The photo the selfie is compared with, cropped from the ID or taken from signed Aadhaar data
+function DocumentPortrait({ verificationId, size }: { verificationId: number; size: "sm" | "md" }) {
+  return (
+    <img
+      src={`/api/verification/${verificationId}/portrait`}
+      alt="Photo from your ID"
+      className={`${size === "sm" ? "w-14 h-[4.5rem]" : "w-24 h-32"} object-cover rounded border border-gray-300 flex-shrink-0`}
+    />
+  );
+}
+
+// One extracted value, highlighted when OCR was unsure of it
+function ExtractedField({ label, value, confidence }: { label: string; value: string; confidence?: FieldConfidence }) {
+  if (!confidence?.lowConfidence) {
+    return <p><span className="font-medium">{label}:</span> {value}</p>;
+  }
+
+  return (
+    <div className="rounded-md border border-yellow-300 bg-yellow-50 px-2 py-1">
+      <p className="flex items-center">
+        <AlertTriangle className="text-yellow-600 mr-2 flex-shrink-0" size={16} />
+        <span className="font-medium mr-1">{label}:</span> {value}
+      </p>
+      <p className="text-xs text-yellow-800 ml-6">
+        Low read confidence ({confidence.confidence}%). Please check this matches your document.
+      </p>
+    </div>
+  );
+}
+
 export default function VerificationResults({ verificationId }: VerificationResultsProps) {
   const { toast } = useToast();
 
-  const { data: verificationRecord, isLoading } = useQuery<VerificationRecord>({
+  const { data: verificationRecord, isLoading, refetch } = useQuery<VerificationRecord>({
     queryKey: [`/api/verification/${verificationId}`],
     refetchInterval: 2000, // Poll every 2 seconds until completed
     refetchIntervalInBackground: false,
@@ -47,16 +92,18 @@ export default function VerificationResults({ verificationId }: VerificationResu
         headers: {
           'Content-Type': 'application/json',
         },
+        // The server applies its own age policy; the page has no say in it
         body: JSON.stringify({ verificationId }),
       });
-      
-      if (!response.ok) {
-        throw new Error('Failed to process verification');
-      }
-      
-      return response.json();
+
+      return readProcessVerificationResponse(response);
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      // The other device of a handoff got there first; its results arrive by polling
+      if (isProcessingElsewhere(data)) {
+        refetch();
+        return;
+      }
       toast({
         title: "Verification processed",
         description: "Your verification has been completed successfully.",
@@ -117,6 +164,10 @@ export default function VerificationResults({ verificationId }: VerificationResu
     );
   }
 
+  const feedback = verificationRecord.qualityFeedback
+    ? JSON.parse(verificationRecord.qualityFeedback)
+    : verificationRecord.results?.feedback;
+
   const isCompleted = verificationRecord.status === 'completed';
   const isProcessing = verificationRecord.status === 'processing';
 
@@ -136,16 +187,44 @@ export default function VerificationResults({ verificationId }: VerificationResu
 
         <div className="mb-6">
           <h4 className="font-medium text-gray-900 mb-3">Extracted Information:</h4>
-          <div className="bg-gray-50 rounded-lg p-4 space-y-2">
-            {verificationRecord.extractedName && (
-              <p><span className="font-medium">Name:</span> {verificationRecord.extractedName}</p>
-            )}
-            {verificationRecord.extractedAge && (
-              <p><span className="font-medium">Age:</span> {verificationRecord.extractedAge} years</p>
-            )}
-            {verificationRecord.extractedDob && (
-              <p><span className="font-medium">Date of Birth:</span> {verificationRecord.extractedDob}</p>
+          <div className="bg-gray-50 rounded-lg p-4 flex items-start gap-4">
+            {verificationRecord.portraitPath && (
+              <DocumentPortrait verificationId={verificationId} size="md" />
             )}
+            <div className="space-y-2 flex-1">
+              {(verificationRecord.qrVerified || verificationRecord.documentSource === 'offline_ekyc') && (
+                <p className="flex items-center text-sm text-green-700">
+                  <ShieldCheck className="mr-2 flex-shrink-0" size={16} />
+                  {verificationRecord.documentSource === 'offline_ekyc'
+                    ? "Details read from your signed Aadhaar Offline e-KYC file"
+                    : "Details read from the signed Aadhaar QR code"}
+                </p>
+              )}
+              {verificationRecord.extractedName && (
+                <ExtractedField
+                  label="Name"
+                  value={verificationRecord.extractedName}
+                  confidence={verificationRecord.fieldConfidence?.name}
+                />
+              )}
+              {verificationRecord.extractedAge && (
+                <p><span className="font-medium">Age:</span> {verificationRecord.extractedAge} years</p>
+              )}
+              {verificationRecord.extractedDob && (
+                <ExtractedField
+                  label="Date of Birth"
+                  value={verificationRecord.extractedDob}
+                  confidence={verificationRecord.fieldConfidence?.dob}
+                />
+              )}
+              {verificationRecord.documentNumber && (
+                <ExtractedField
+                  label="Document Number"
+                  value={verificationRecord.documentNumber}
+                  confidence={verificationRecord.fieldConfidence?.documentNumber}
+                />
+              )}
+            </div>
           </div>
         </div>
 
@@ -226,11 +305,15 @@ export default function VerificationResults({ verificationId }: VerificationResu
                 ) : (
                   <XCircle className="text-error-red" size={24} />
                 )}
+                {verificationRecord.portraitPath && (
+                  <DocumentPortrait verificationId={verificationId} size="sm" />
+                )}
                 <div>
                   <h4 className="font-medium text-gray-900">Identity Verification</h4>
                   <p className="text-sm text-gray-600">
-                    <span className="font-semibold text-lg">
-                      {verificationRecord.faceMatchScore}% match
+                    {/* Ranks likeness against a hand-set threshold of 50; it is not a probability */}
+                    <span className="font-semibold text-lg" title="Uncalibrated similarity score; 50 is the match threshold">
+                      Similarity {verificationRecord.faceMatchScore}/100
                     </span>
                     {verificationRecord.faceConfidence && (
                       <span className="text-gray-500 ml-2">
@@ -276,17 +359,30 @@ export default function VerificationResults({ verificationId }: VerificationResu
                   <h4 className="font-medium text-gray-900">Age Verification</h4>
                   <p className="text-sm text-gray-600">
                     {verificationRecord.detectedAge} years
+                    {verificationRecord.detectedAgeLow != null && verificationRecord.detectedAgeHigh != null && (
+                      <span className="text-gray-500 ml-2">
+                        (likely {verificationRecord.detectedAgeLow}–{verificationRecord.detectedAgeHigh})
+                      </span>
+                    )}
                     {verificationRecord.ageConfidence && (
                       <span className="text-gray-500 ml-2">
                         (confidence: {verificationRecord.ageConfidence}%)
                       </span>
                     )}
                   </p>
-                  {verificationRecord.detectedAge && (
+                  {verificationRecord.ageSource === 'document' && (
+                    <p className="text-xs text-gray-500">Decided from the age on the ID</p>
+                  )}
+                  {verificationRecord.ageDecision && (
+                    <p className="text-xs text-gray-500">
+                      Policy {verificationRecord.ageDecision.policy.name} (minimum age {verificationRecord.ageDecision.policy.minimumAge})
+                    </p>
+                  )}
+                  {verificationRecord.detectedAge != null && (
                     <div className="mt-2 bg-gray-200 rounded-full h-2">
                       <div 
                         className={`h-2 rounded-full ${
-                          verificationRecord.detectedAge >= 18 ? 'bg-green-500' : 'bg-red-500'
+                          verificationRecord.ageVerified ? 'bg-green-500' : 'bg-red-500'
                         }`}
                         style={{ width: `${Math.min(100, verificationRecord.detectedAge)}%` }}
                       ></div>
@@ -297,17 +393,19 @@ export default function VerificationResults({ verificationId }: VerificationResu
               <span className={`px-3 py-1 rounded-full text-sm font-medium ${
                 verificationRecord.ageVerified 
                   ? 'bg-green-100 text-green-800' 
-                  : 'bg-red-100 text-red-800'
+                  : verificationRecord.ageDecision?.outcome === 'manual_review'
+                    ? 'bg-yellow-100 text-yellow-800'
+                    : 'bg-red-100 text-red-800'
               }`}>
-                {verificationRecord.ageVerified ? 'Verified' : 'Failed'}
+                {verificationRecord.ageVerified ? 'Verified' : verificationRecord.ageDecision?.outcome === 'manual_review' ? 'Needs review' : 'Failed'}
               </span>
             </div>
           </CardContent>
         </Card>
 
         {/* Feedback */}
-        {verificationRecord.results?.feedback && (
-          <QualityFeedback feedback={verificationRecord.results.feedback} />
+        {feedback && (
+          <QualityFeedback feedback={feedback} />
         )}
 
         <div className="flex justify-end mt-4">
@@ -0,0 +1,115 @@
+import { measureFrame, measureGlare, type FrameQuality, type FrameRegion, type GrayFrame } from "./frame-quality";
+
+// Live checks that an ID card fills the on-screen guide and is sharp and well
+// exposed. The card is found from its edges: each side of the guide must have a
+// straight, high-contrast line close to it.
+
+export type CardHint = 'no_card' | 'align_card' | 'too_dark' | 'too_bright' | 'glare' | 'blurry';
+
+export interface CardFrameAssessment {
+  edges: { top: boolean; right: boolean; bottom: boolean; left: boolean };
+  quality: FrameQuality; // Inside the guide
+  glare: number; // Clipped share of the worst part of the guide, 0-1
+  hint: CardHint | null; // The most important problem, or null when ready
+  ready: boolean;
+}
+
+export const CARD_HINT_LABELS: Record<CardHint, string> = {
+  no_card: "Place your ID inside the frame",
+  align_card: "Line up the edges of your ID with the frame",
+  too_dark: "Too dark, find more light",
+  too_bright: "Too bright, move away from the light",
+  glare: "Glare on your ID. Tilt it slightly or turn off the torch",
+  blurry: "Hold still to focus",
+};
+
+// ISO/IEC 7810 ID-1, the size of bank cards and most national ID cards: 85.60 x 53.98 mm
+export const ID1_ASPECT_RATIO = 85.6 / 53.98;
+// The guide's largest share of the frame width and height
+const GUIDE_MAX_WIDTH = 0.8;
+const GUIDE_MAX_HEIGHT = 0.8;
+
+// How far from the guide a card edge may lie, as a share of the frame's width or height
+const EDGE_SEARCH = 0.06;
+// Luma step across an edge, and the share of the guide side it must run along
+const EDGE_STEP = 24;
+const EDGE_COVERAGE = 0.6;
+
+// Measured inside the guide at ANALYSIS_WIDTH pixels across
+export const ANALYSIS_WIDTH = 320;
+const MIN_SHARPNESS = 300;
+const MIN_BRIGHTNESS = 60;
+const MAX_BRIGHTNESS = 225;
+// Glare over this share of any part of the card can hide printed details
+export const MAX_GLARE = 0.15;
+
+// The guide rectangle for a frame, centred
+export function cardGuide(frameWidth: number, frameHeight: number): FrameRegion {
+  let width = frameWidth * GUIDE_MAX_WIDTH;
+  let height = width / ID1_ASPECT_RATIO;
+  if (height > frameHeight * GUIDE_MAX_HEIGHT) {
+    height = frameHeight * GUIDE_MAX_HEIGHT;
+    width = height * ID1_ASPECT_RATIO;
+  }
+  return { x: (frameWidth - width) / 2, y: (frameHeight - height) / 2, width, height };
+}
+
+// Best share of a guide side covered by a strong edge, over lines near the side.
+// `horizontal` sides run along x and are searched over y.
+function edgeCoverage(frame: GrayFrame, guide: FrameRegion, horizontal: boolean, position: number): number {
+  const { width, height, pixels } = frame;
+  const at = (x: number, y: number) => pixels[y * width + x];
+  const search = Math.max(2, Math.round((horizontal ? height : width) * EDGE_SEARCH));
+  const [from, to] = horizontal
+    ? [Math.round(guide.x), Math.round(guide.x + guide.width)]
+    : [Math.round(guide.y), Math.round(guide.y + guide.height)];
+  const limit = horizontal ? height : width;
+
+  let best = 0;
+  for (let line = Math.max(2, Math.round(position) - search); line <= Math.min(limit - 3, Math.round(position) + search); line++) {
+    let strong = 0;
+    for (let i = Math.max(1, from); i < Math.min(to, (horizontal ? width : height) - 1); i++) {
+      // Allow the edge to wander a pixel either side of the line, for slight tilt
+      for (let offset = -1; offset <= 1; offset++) {
+        const step = horizontal
+          ? Math.abs(at(i, line + offset + 1) - at(i, line + offset - 1))
+          : Math.abs(at(line + offset + 1, i) - at(line + offset - 1, i));
+        if (step >= EDGE_STEP) {
+          strong++;
+          break;
+        }
+      }
+    }
+    best = Math.max(best, strong / Math.max(1, to - from));
+  }
+  return best;
+}
+
+export function findCardEdges(frame: GrayFrame, guide: FrameRegion): CardFrameAssessment['edges'] {
+  return {
+    top: edgeCoverage(frame, guide, true, guide.y) >= EDGE_COVERAGE,
+    right: edgeCoverage(frame, guide, false, guide.x + guide.width) >= EDGE_COVERAGE,
+    bottom: edgeCoverage(frame, guide, true, guide.y + guide.height) >= EDGE_COVERAGE,
+    left: edgeCoverage(frame, guide, false, guide.x) >= EDGE_COVERAGE,
+  };
+}
+
+// `frame` is the whole frame, `inside` the guide region at ANALYSIS_WIDTH
+export function assessCardFrame(frame: GrayFrame, inside: GrayFrame): CardFrameAssessment {
+  const edges = findCardEdges(frame, cardGuide(frame.width, frame.height));
+  const quality = measureFrame(inside);
+  const glare = measureGlare(inside);
+  const found = Object.values(edges).filter(Boolean).length;
+
+  const hint = ((): CardHint | null => {
+    if (found <= 1) return 'no_card';
+    if (found < 4) return 'align_card';
+    if (quality.brightness < MIN_BRIGHTNESS) return 'too_dark';
+    if (quality.brightness > MAX_BRIGHTNESS) return 'too_bright';
+    if (glare > MAX_GLARE) return 'glare';
+    if (quality.sharpness < MIN_SHARPNESS) return 'blurry';
+    return null;
+  })();
+
+  return { edges, quality, glare, hint, ready: hint === null };
+}
@@ -1,5 +1,11 @@
-// This would be used for client-side face detection if needed
-// For now, we're doing face comparison on the server side
+import type * as FaceApi from "@vladmandic/face-api";
+import { headPose, type FacePoint, type HeadPose } from "@shared/face-geometry";
+import { grabGray, measureFrame } from "./frame-quality";
+
+// Live face detection in the browser, used to guide the user while they line up
+// a selfie. It runs the tiny face detector and tiny landmark model that the
+// server also bundles, served from /models/face. The library and models are
+// loaded on first use, so pages without a camera never download them.
 
 export interface FaceDetectionResult {
   confidence: number;
@@ -9,10 +15,75 @@ export interface FaceDetectionResult {
     width: number;
     height: number;
   };
+  landmarks: FacePoint[];
+  pose: HeadPose;
+}
+
+export type CaptureHint =
+  | 'no_face'
+  | 'multiple_faces'
+  | 'too_dark'
+  | 'too_bright'
+  | 'move_closer'
+  | 'move_back'
+  | 'not_centred'
+  | 'not_frontal'
+  | 'blurry';
+
+export interface FrameGuidance {
+  faces: FaceDetectionResult[];
+  brightness: number; // Mean luma of the face, or the whole frame without one, 0-255
+  sharpness: number; // Variance of the Laplacian over the face, or the whole frame without one
+  hint: CaptureHint | null; // The most important problem, or null when ready
+  ready: boolean;
+}
+
+export const CAPTURE_HINT_LABELS: Record<CaptureHint, string> = {
+  no_face: "Position your face in the oval",
+  multiple_faces: "Only one face should be in view",
+  too_dark: "Too dark, find more light",
+  too_bright: "Too bright, move away from the light",
+  move_closer: "Move closer",
+  move_back: "Move back a little",
+  not_centred: "Face not centred",
+  not_frontal: "Look straight at the camera",
+  blurry: "Hold still to focus",
+};
+
+// The alignment guide, as shares of the frame, centred
+export const FACE_OVAL = { width: 0.42, height: 0.72 };
+
+const MODEL_URL = '/models/face';
+const DETECTOR_INPUT_SIZE = 224;
+const MIN_DETECTION_SCORE = 0.5;
+
+// Face box width as a share of the frame width
+const MIN_FACE_WIDTH = 0.22;
+const MAX_FACE_WIDTH = 0.5;
+// Largest offset of the face centre from the frame centre, as a share of the frame
+const MAX_CENTRE_OFFSET_X = 0.12;
+const MAX_CENTRE_OFFSET_Y = 0.15;
+// Stricter than the server's limits, so a face that looks ready here passes there
+const MAX_YAW = 15;
+const MAX_PITCH = 15;
+const MAX_ROLL = 12;
+const MIN_BRIGHTNESS = 70;
+const MAX_BRIGHTNESS = 210;
+// Measured on the face scaled to SAMPLE_WIDTH pixels across
+const MIN_SHARPNESS = 100;
+const SAMPLE_WIDTH = 96;
+
+type FaceInput = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+
+function inputSize(input: FaceInput): { width: number; height: number } {
+  if (input instanceof HTMLVideoElement) return { width: input.videoWidth, height: input.videoHeight };
+  if (input instanceof HTMLImageElement) return { width: input.naturalWidth, height: input.naturalHeight };
+  return { width: input.width, height: input.height };
 }
 
 export class FaceDetector {
   private static instance: FaceDetector;
+  private loading: Promise<typeof FaceApi> | null = null;
 
   private constructor() {}
 
@@ -23,16 +94,76 @@ export class FaceDetector {
     return FaceDetector.instance;
   }
 
-  async detectFaces(imageElement: HTMLImageElement): Promise<FaceDetectionResult[]> {
-    // Placeholder for face detection logic
-    // In a real implementation, this would use face-api.js or similar
-    return [];
+  // Safe to call more than once; a failed load can be retried
+  load(): Promise<typeof FaceApi> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const faceapi = await import("@vladmandic/face-api");
+        await faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL);
+        await faceapi.nets.faceLandmark68TinyNet.loadFromUri(MODEL_URL);
+        return faceapi;
+      })().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  // Largest face first
+  async detectFaces(input: FaceInput): Promise<FaceDetectionResult[]> {
+    const faceapi = await this.load();
+    const results = await faceapi
+      .detectAllFaces(input, new faceapi.TinyFaceDetectorOptions({ inputSize: DETECTOR_INPUT_SIZE, scoreThreshold: MIN_DETECTION_SCORE }))
+      .withFaceLandmarks(true);
+
+    return results
+      .map(result => {
+        const landmarks = result.landmarks.positions.map(point => ({ x: point.x, y: point.y }));
+        return {
+          confidence: result.detection.score,
+          boundingBox: {
+            x: result.detection.box.x,
+            y: result.detection.box.y,
+            width: result.detection.box.width,
+            height: result.detection.box.height,
+          },
+          landmarks,
+          pose: headPose(landmarks),
+        };
+      })
+      .sort((a, b) => b.boundingBox.width * b.boundingBox.height - a.boundingBox.width * a.boundingBox.height);
   }
 
-  async compareFaces(image1: HTMLImageElement, image2: HTMLImageElement): Promise<number> {
-    // Placeholder for face comparison logic
-    // Returns similarity score between 0-100
-    return Math.random() * 100;
+  // Whether a frame is ready to capture, and if not, the one thing to fix first
+  async assessFrame(input: FaceInput): Promise<FrameGuidance> {
+    const faces = await this.detectFaces(input);
+    const { width, height } = inputSize(input);
+    const face = faces[0];
+    const { brightness, sharpness } = width > 0 && height > 0
+      ? measureFrame(grabGray(input, face?.boundingBox || { x: 0, y: 0, width, height }, SAMPLE_WIDTH))
+      : { brightness: 0, sharpness: 0 };
+
+    const hint = ((): CaptureHint | null => {
+      if (!face) return 'no_face';
+      if (faces.length > 1) return 'multiple_faces';
+      if (brightness < MIN_BRIGHTNESS) return 'too_dark';
+      if (brightness > MAX_BRIGHTNESS) return 'too_bright';
+
+      const box = face.boundingBox;
+      if (box.width / width < MIN_FACE_WIDTH) return 'move_closer';
+      if (box.width / width > MAX_FACE_WIDTH) return 'move_back';
+      const offsetX = Math.abs(box.x + box.width / 2 - width / 2) / width;
+      const offsetY = Math.abs(box.y + box.height / 2 - height / 2) / height;
+      if (offsetX > MAX_CENTRE_OFFSET_X || offsetY > MAX_CENTRE_OFFSET_Y) return 'not_centred';
+
+      const { yaw, pitch, roll } = face.pose;
+      if (Math.abs(yaw) > MAX_YAW || Math.abs(pitch) > MAX_PITCH || Math.abs(roll) > MAX_ROLL) return 'not_frontal';
+      if (sharpness < MIN_SHARPNESS) return 'blurry';
+      return null;
+    })();
+
+    return { faces, brightness, sharpness, hint, ready: hint === null };
   }
 }
 
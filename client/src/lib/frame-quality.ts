@@ -0,0 +1,157 @@
+// Frame measurements for live capture, and the auto-capture rule built on them.
+// The measurements work on a small greyscale copy of the frame, so they are cheap
+// enough to run several times a second.
+
+export interface GrayFrame {
+  width: number;
+  height: number;
+  pixels: Float32Array; // Luma, 0-255, row by row
+}
+
+export interface FrameRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameQuality {
+  sharpness: number; // Variance of the Laplacian; higher is sharper
+  brightness: number; // Mean luma, 0-255
+  clipped: number; // Share of pixels at or near full white
+}
+
+type FrameSource = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+
+const CLIPPED_LUMA = 250;
+
+let canvas: HTMLCanvasElement | null = null;
+
+// Draws a region of the source, scaled to `width` pixels across, and returns its luma
+export function grabGray(source: FrameSource, region: FrameRegion, width: number): GrayFrame {
+  const height = Math.max(1, Math.round(width * region.height / region.width));
+  if (!canvas) canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Failed to get canvas context');
+
+  context.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  const pixels = new Float32Array(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { width, height, pixels };
+}
+
+export function measureFrame(frame: GrayFrame): FrameQuality {
+  const { width, height, pixels } = frame;
+  let sum = 0;
+  let sumSquared = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = 4 * pixels[i] - pixels[i - 1] - pixels[i + 1] - pixels[i - width] - pixels[i + width];
+      sum += value;
+      sumSquared += value * value;
+      count++;
+    }
+  }
+
+  let brightness = 0;
+  let clipped = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    brightness += pixels[i];
+    if (pixels[i] >= CLIPPED_LUMA) clipped++;
+  }
+
+  return {
+    sharpness: count > 0 ? sumSquared / count - (sum / count) ** 2 : 0,
+    brightness: pixels.length > 0 ? brightness / pixels.length : 0,
+    clipped: pixels.length > 0 ? clipped / pixels.length : 0,
+  };
+}
+
+// Glare shows as a patch blown out to white. The frame is split into a grid and
+// the share of clipped pixels in the worst cell is returned, 0-1, so a small hot
+// spot counts while a white card evenly lit does not.
+const GLARE_GRID_COLUMNS = 8;
+const GLARE_GRID_ROWS = 5;
+
+export function measureGlare(frame: GrayFrame): number {
+  const { width, height, pixels } = frame;
+  const cellWidth = width / GLARE_GRID_COLUMNS;
+  const cellHeight = height / GLARE_GRID_ROWS;
+  let worst = 0;
+  for (let row = 0; row < GLARE_GRID_ROWS; row++) {
+    for (let column = 0; column < GLARE_GRID_COLUMNS; column++) {
+      let clipped = 0;
+      let count = 0;
+      for (let y = Math.floor(row * cellHeight); y < Math.floor((row + 1) * cellHeight); y++) {
+        for (let x = Math.floor(column * cellWidth); x < Math.floor((column + 1) * cellWidth); x++) {
+          if (pixels[y * width + x] >= CLIPPED_LUMA) clipped++;
+          count++;
+        }
+      }
+      if (count > 0) worst = Math.max(worst, clipped / count);
+    }
+  }
+  return worst;
+}
+
+export interface AutoCaptureOptions {
+  // How long framing and quality must stay good before a frame is taken
+  holdMs: number;
+}
+
+// Takes the sharpest frame of a run of good frames once the run has lasted long
+// enough. Any bad frame starts the run again, so a passing moment of good framing
+// while the user is still moving is not captured.
+export class AutoCapture {
+  private options: AutoCaptureOptions;
+  private runStart: number | null = null;
+  private best: { score: number; image: string } | null = null;
+
+  constructor(options: AutoCaptureOptions) {
+    this.options = options;
+  }
+
+  // `grab` is called only when the frame is the best of the run so far.
+  // Returns the captured image once the hold time is reached, otherwise null.
+  offer(good: boolean, score: number, grab: () => string | null, now: number = Date.now()): string | null {
+    if (!good) {
+      this.reset();
+      return null;
+    }
+
+    if (this.runStart === null) this.runStart = now;
+    if (!this.best || score > this.best.score) {
+      const image = grab();
+      if (image) this.best = { score, image };
+    }
+
+    if (this.best && now - this.runStart >= this.options.holdMs) {
+      const image = this.best.image;
+      this.reset();
+      return image;
+    }
+    return null;
+  }
+
+  // Share of the hold time completed, 0-1, for a progress indicator
+  progress(now: number = Date.now()): number {
+    return this.runStart === null ? 0 : Math.min(1, (now - this.runStart) / this.options.holdMs);
+  }
+
+  reset(): void {
+    this.runStart = null;
+    this.best = null;
+  }
+}
+
+export async function dataUrlToFile(dataUrl: string, name: string): Promise<File> {
+  const blob = await (await fetch(dataUrl)).blob();
+  return new File([blob], name, { type: blob.type || 'image/jpeg' });
+}
@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isProcessingElsewhere, readProcessVerificationResponse } from "./process-verification";
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+test('returns the results of a processed verification', async () => {
+  const result = await readProcessVerificationResponse(jsonResponse(200, { success: true, results: { identityVerified: true } }));
+  assert.deepEqual(result, { success: true, results: { identityVerified: true } });
+  assert.equal(isProcessingElsewhere(result), false);
+});
+
+test('treats processing already under way on the other device as success', async () => {
+  const result = await readProcessVerificationResponse(jsonResponse(409, { message: 'Verification is already being processed', code: 'verification_in_progress' }));
+  assert.equal(isProcessingElsewhere(result), true);
+});
+
+test('fails on other errors, including other conflicts', async () => {
+  await assert.rejects(readProcessVerificationResponse(jsonResponse(500, { message: 'Failed to process verification' })), /Failed to process verification/);
+  await assert.rejects(readProcessVerificationResponse(jsonResponse(409, { message: 'Something else', code: 'other' })), /Something else/);
+  await assert.rejects(readProcessVerificationResponse(new Response('<html>', { status: 502 })), /Failed to process verification/);
+});
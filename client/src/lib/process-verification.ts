@@ -0,0 +1,22 @@
+// Reading the answer to POST /api/process-verification. With a handoff, both devices
+// can start processing; the one that comes second is told so with a 409 and simply
+// keeps polling for the results the other produces.
+
+export interface ProcessingElsewhere {
+  inProgress: true;
+}
+
+export async function readProcessVerificationResponse<T>(response: Response): Promise<T | ProcessingElsewhere> {
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    if (response.status === 409 && body?.code === 'verification_in_progress') {
+      return { inProgress: true };
+    }
+    throw new Error(body?.message || 'Failed to process verification');
+  }
+  return response.json();
+}
+
+export function isProcessingElsewhere(result: unknown): result is ProcessingElsewhere {
+  return typeof result === 'object' && result !== null && (result as ProcessingElsewhere).inProgress === true;
+}
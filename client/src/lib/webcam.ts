@@ -4,6 +4,13 @@ export interface WebcamConstraints {
   facingMode: 'user' | 'environment';
 }
 
+// The highest resolution to ask for; browsers give the closest the camera supports
+export const HIGHEST_RESOLUTION = { width: 4096, height: 2160 };
+
+// Torch control is not yet in the DOM typings
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+type TorchConstraintSet = MediaTrackConstraintSet & { torch?: boolean };
+
 export class WebcamService {
   private stream: MediaStream | null = null;
 
@@ -33,6 +40,23 @@ export class WebcamService {
     }
   }
 
+  private videoTrack(): MediaStreamTrack | null {
+    return this.stream?.getVideoTracks()[0] || null;
+  }
+
+  // Only some phone browsers expose the rear camera's flash
+  supportsTorch(): boolean {
+    const track = this.videoTrack();
+    if (!track || typeof track.getCapabilities !== 'function') return false;
+    return !!(track.getCapabilities() as TorchCapabilities).torch;
+  }
+
+  async setTorch(on: boolean): Promise<void> {
+    const track = this.videoTrack();
+    if (!track || !this.supportsTorch()) return;
+    await track.applyConstraints({ advanced: [{ torch: on } as TorchConstraintSet] });
+  }
+
   stopCamera(): void {
     if (this.stream) {
       this.stream.getTracks().forEach(track => track.stop());
@@ -40,7 +64,12 @@ export class WebcamService {
     }
   }
 
-  async takeSnapshot(videoElement: HTMLVideoElement): Promise<string> {
+  async takeSnapshot(videoElement: HTMLVideoElement, quality: number = 0.8): Promise<string> {
+    return this.snapshot(videoElement, quality);
+  }
+
+  // Synchronous, for grabbing frames inside a live check loop; full video resolution
+  snapshot(videoElement: HTMLVideoElement, quality: number = 0.8): string {
     const canvas = document.createElement('canvas');
     const context = canvas.getContext('2d');
     
@@ -53,7 +82,7 @@ export class WebcamService {
     
     context.drawImage(videoElement, 0, 0);
     
-    return canvas.toDataURL('image/jpeg', 0.8);
+    return canvas.toDataURL('image/jpeg', quality);
   }
 
   isSupported(): boolean {
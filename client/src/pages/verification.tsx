@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Shield, ArrowLeft, ArrowRight } from "lucide-react";
@@ -7,13 +7,73 @@ import ProgressIndicator from "@/components/progress-indicator";
 import DocumentUpload from "@/components/document-upload";
 import SelfieCapture from "@/components/selfie-capture";
 import VerificationResults from "@/components/verification-results";
+import HandoffPanel from "@/components/handoff-panel";
+import type { HandoffUpdate } from "@shared/schema";
 
 type VerificationStep = "upload" | "selfie" | "verify" | "complete";
 
+// Where a device joining a handoff picks up
+function stepForHandoff(update: HandoffUpdate): VerificationStep {
+  switch (update.step) {
+    case "document_uploaded":
+    case "selfie_uploaded": // The liveness check is part of the selfie step
+      return "selfie";
+    case "liveness_passed":
+      return "verify";
+    case "processing":
+    case "completed":
+      return "complete";
+    default:
+      return "upload";
+  }
+}
+
 export default function Verification() {
   const [currentStep, setCurrentStep] = useState<VerificationStep>("upload");
   const [verificationId, setVerificationId] = useState<number | null>(null);
   const [extractedData, setExtractedData] = useState<any>(null);
+  // On a phone that scanned the desktop's QR code, the session its uploads report to
+  const [handoffSessionId, setHandoffSessionId] = useState<string | null>(null);
+  const [handoffError, setHandoffError] = useState<string | null>(null);
+  // On the desktop, whether a phone has taken over capture
+  const [phoneConnected, setPhoneConnected] = useState(false);
+
+  // A phone opened from the QR code spends the token once and drops it from the address
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get("handoff");
+    if (!token) return;
+    params.delete("handoff");
+    const query = params.toString();
+    window.history.replaceState(null, "", window.location.pathname + (query ? `?${query}` : ""));
+
+    fetch('/api/handoff/redeem', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token }),
+    })
+      .then(async response => {
+        const body = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(body?.message || 'Failed to open the verification from your computer');
+        }
+        setHandoffSessionId(body.sessionId);
+        if (body.verificationId) setVerificationId(body.verificationId);
+        setCurrentStep(stepForHandoff(body));
+      })
+      .catch(error => setHandoffError(error.message));
+  }, []);
+
+  // The desktop follows the phone, and shows the results once the selfie is done
+  const handleHandoffUpdate = (update: HandoffUpdate) => {
+    if (update.step === "waiting") return;
+    setPhoneConnected(true);
+    if (update.verificationId) setVerificationId(update.verificationId);
+    const step = stepForHandoff(update);
+    if (step === "verify" || step === "complete") setCurrentStep("complete");
+  };
 
   const steps = [
     { key: "upload", label: "Upload ID", number: 1 },
@@ -98,11 +158,27 @@ export default function Verification() {
         />
 
         <div className="space-y-6">
-          {currentStep === "upload" && (
-            <DocumentUpload onDocumentUploaded={handleDocumentUploaded} />
+          {handoffError && (
+            <Card className="bg-red-50 border-red-200">
+              <CardContent className="pt-6">
+                <p className="text-sm text-error-red">{handoffError}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Capture moves to the phone once it connects; the panel shows its progress instead */}
+          {!handoffSessionId && (currentStep === "upload" || currentStep === "selfie") && (
+            <HandoffPanel verificationId={verificationId} onUpdate={handleHandoffUpdate} />
+          )}
+
+          {currentStep === "upload" && !phoneConnected && (
+            <DocumentUpload
+              onDocumentUploaded={handleDocumentUploaded}
+              handoffSessionId={handoffSessionId ?? undefined}
+            />
           )}
           
-          {currentStep === "selfie" && verificationId && (
+          {currentStep === "selfie" && verificationId && !phoneConnected && (
             <SelfieCapture
               verificationId={verificationId}
               onSelfieUploaded={handleSelfieUploaded}
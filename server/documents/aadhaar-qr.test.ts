@@ -0,0 +1,138 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import zlib from "zlib";
+import { decodeSecureQr, isSecureQrPayload, secureQrToFields, SecureQrError, SecureQrVerifier } from "./aadhaar-qr";
+
+// Secure QR payloads built and signed here with a throwaway key, laid out as UIDAI does
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const FIELDS = {
+  emailMobileIndicator: '3',
+  referenceId: '123420240101120000123',
+  name: 'Asha Verma',
+  dob: '15-08-1990',
+  gender: 'F',
+  careOf: 'D/O Ravi Verma',
+  district: 'Pune',
+  landmark: 'Near Temple',
+  house: '12',
+  location: 'Kothrud',
+  pincode: '411038',
+  postOffice: 'Kothrud',
+  state: 'Maharashtra',
+  street: 'MG Road',
+  subDistrict: 'Haveli',
+  vtc: 'Pune',
+};
+
+const PHOTO = Buffer.from('not really JPEG 2000, only the length matters here');
+
+interface PayloadOptions {
+  version?: string;
+  mobileLastFour?: string;
+  fields?: Partial<typeof FIELDS>;
+  // Sign these fields instead, leaving a signature that does not match the payload
+  signedFields?: Partial<typeof FIELDS>;
+}
+
+function buildData(version: string | undefined, fields: typeof FIELDS, mobileLastFour: string | undefined): Buffer {
+  const text = [...(version ? [version] : []), ...Object.values(fields), ...(mobileLastFour ? [mobileLastFour] : [])];
+  const hashes = crypto.randomBytes(64); // Email and mobile hashes, both present for indicator 3
+  return Buffer.concat([...text.map(value => Buffer.from(value + '\xff', 'latin1')), PHOTO, hashes]);
+}
+
+function toDecimal(data: Buffer): string {
+  return BigInt('0x' + zlib.gzipSync(data).toString('hex')).toString();
+}
+
+function buildPayload(options: PayloadOptions = {}): string {
+  const fields = { ...FIELDS, ...options.fields };
+  const data = buildData(options.version, fields, options.mobileLastFour);
+  const signed = options.signedFields
+    ? buildData(options.version, { ...fields, ...options.signedFields }, options.mobileLastFour)
+    : data;
+  return toDecimal(Buffer.concat([data, crypto.sign('sha256', signed, privateKey)]));
+}
+
+function verifierWithKey(): SecureQrVerifier {
+  const keyPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'secure-qr-')), 'key.pem');
+  fs.writeFileSync(keyPath, publicKey.export({ type: 'spki', format: 'pem' }));
+  return new SecureQrVerifier(keyPath);
+}
+
+test('decodes the text fields, photo and signature of a V2 payload', () => {
+  const qr = decodeSecureQr(buildPayload({ version: 'V2' }));
+
+  assert.equal(qr.version, 'V2');
+  assert.equal(qr.name, 'Asha Verma');
+  assert.equal(qr.dob, '15-08-1990');
+  assert.equal(qr.aadhaarLastFour, '1234');
+  assert.equal(qr.pincode, '411038');
+  assert.equal(qr.hasEmail, true);
+  assert.equal(qr.hasMobile, true);
+  assert.equal(qr.mobileLastFour, undefined);
+  assert.deepEqual(qr.photo, PHOTO);
+  assert.equal(qr.signature.length, 256);
+});
+
+test('reads the mobile digits appended in V3 and the unversioned V1 layout', () => {
+  assert.equal(decodeSecureQr(buildPayload({ version: 'V3', mobileLastFour: '9876' })).mobileLastFour, '9876');
+
+  const v1 = decodeSecureQr(buildPayload());
+  assert.equal(v1.version, 'V1');
+  assert.equal(v1.name, 'Asha Verma');
+});
+
+test('maps the QR to document fields', () => {
+  const fields = secureQrToFields(decodeSecureQr(buildPayload({ version: 'V2' })));
+
+  assert.equal(fields.name, 'Asha Verma');
+  assert.equal(fields.dob, '15/08/1990');
+  assert.equal(fields.gender, 'female');
+  assert.match(fields.address || '', /MG Road/);
+});
+
+test('verifies a payload signed with the configured key', () => {
+  assert.equal(verifierWithKey().verify(decodeSecureQr(buildPayload({ version: 'V2' }))), 'verified');
+});
+
+test('rejects a payload changed after signing', () => {
+  const tampered = buildPayload({ version: 'V2', fields: { dob: '15-08-1980' }, signedFields: { dob: '15-08-1990' } });
+  const qr = decodeSecureQr(tampered);
+
+  assert.equal(qr.dob, '15-08-1980');
+  assert.equal(verifierWithKey().verify(qr), 'invalid_signature');
+});
+
+test('reports no certificate rather than a verdict when none is configured', () => {
+  const verifier = new SecureQrVerifier(path.join(os.tmpdir(), 'no-such-certificate.cer'));
+  assert.equal(verifier.verify(decodeSecureQr(buildPayload({ version: 'V2' }))), 'no_certificate');
+});
+
+test('rejects truncated payloads', () => {
+  // Cut off in the middle of the gzip stream
+  const payload = buildPayload({ version: 'V2' });
+  assert.throws(() => decodeSecureQr(payload.slice(0, Math.floor(payload.length / 2))), SecureQrError);
+
+  // Complete gzip stream, but the photo and signature are missing. A long, random
+  // landmark keeps the payload at the length of a real one.
+  const data = buildData('V2', { ...FIELDS, landmark: crypto.randomBytes(300).toString('hex') }, undefined);
+  const withoutSignature = toDecimal(data.subarray(0, data.length - PHOTO.length - 64 + 10));
+  assert.throws(() => decodeSecureQr(withoutSignature), /truncated/);
+
+  // Text fields end early: no further delimiters after the reference ID
+  const noDelimiters = Buffer.from(crypto.randomBytes(600).map(byte => byte === 0xff ? 0 : byte));
+  const fieldsOnly = toDecimal(Buffer.concat([Buffer.from('V2\xff3\xff1234\xff', 'latin1'), noDelimiters]));
+  assert.throws(() => decodeSecureQr(fieldsOnly), /fewer fields/);
+});
+
+test('only treats long decimal strings as Secure QR payloads', () => {
+  assert.equal(isSecureQrPayload('https://example.com'), false);
+  assert.equal(isSecureQrPayload('1234567890'), false);
+  assert.equal(isSecureQrPayload(buildPayload({ version: 'V2' })), true);
+});
@@ -0,0 +1,185 @@
+import path from "path";
+import crypto from "crypto";
+import zlib from "zlib";
+import * as mupdf from "mupdf";
+import { formatDate, parseDate } from "./dates";
+import { joinAddress, parseUidaiGender } from "./common";
+import { UidaiCertificate } from "./uidai-certificate";
+import type { DocumentFields } from "./types";
+
+// UIDAI Secure QR, printed on Aadhaar cards and e-Aadhaar. The QR holds a decimal
+// big integer whose bytes are a gzip stream. Inside, text fields are separated by
+// 0xFF and followed by a JPEG 2000 photo, optional email/mobile hashes and a
+// 256-byte RSA-SHA256 signature over everything before it.
+
+export interface SecureQrData {
+  version: string; // "V2", "V3"; "V1" for the original unversioned layout
+  referenceId: string; // Last four Aadhaar digits followed by the generation timestamp
+  aadhaarLastFour: string;
+  name: string;
+  dob: string; // As printed in the QR, DD-MM-YYYY
+  gender: string; // M, F or T
+  careOf: string;
+  house: string;
+  street: string;
+  landmark: string;
+  location: string;
+  vtc: string; // Village, town or city
+  postOffice: string;
+  subDistrict: string;
+  district: string;
+  state: string;
+  pincode: string;
+  mobileLastFour?: string; // V3 onwards
+  hasEmail: boolean;
+  hasMobile: boolean;
+  photo: Buffer; // JPEG 2000
+  signedData: Buffer;
+  signature: Buffer;
+}
+
+export type SecureQrStatus = 'verified' | 'invalid_signature' | 'no_certificate';
+
+export class SecureQrError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecureQrError';
+  }
+}
+
+const DELIMITER = 0xff;
+const SIGNATURE_LENGTH = 256;
+const HASH_LENGTH = 32;
+
+// A Secure QR integer runs to thousands of digits; anything short is some other QR
+const MIN_PAYLOAD_DIGITS = 500;
+
+const TEXT_FIELDS = [
+  'emailMobileIndicator', 'referenceId', 'name', 'dob', 'gender', 'careOf', 'district', 'landmark',
+  'house', 'location', 'pincode', 'postOffice', 'state', 'street', 'subDistrict', 'vtc',
+] as const;
+
+export function isSecureQrPayload(text: string): boolean {
+  return /^\d+$/.test(text) && text.length >= MIN_PAYLOAD_DIGITS;
+}
+
+function decimalToBytes(value: string): Buffer {
+  let hex = BigInt(value).toString(16);
+  if (hex.length % 2 === 1) hex = '0' + hex;
+  return Buffer.from(hex, 'hex');
+}
+
+// Splits off the first `count` 0xFF-delimited fields; the rest is binary
+function splitFields(data: Buffer, count: number): { fields: string[]; rest: Buffer } {
+  const fields: string[] = [];
+  let start = 0;
+  while (fields.length < count) {
+    const end = data.indexOf(DELIMITER, start);
+    if (end === -1) {
+      throw new SecureQrError('Secure QR payload has fewer fields than expected');
+    }
+    fields.push(data.subarray(start, end).toString('latin1'));
+    start = end + 1;
+  }
+  return { fields, rest: data.subarray(start) };
+}
+
+export function decodeSecureQr(payload: string): SecureQrData {
+  if (!isSecureQrPayload(payload)) {
+    throw new SecureQrError('Not an Aadhaar Secure QR payload');
+  }
+
+  let data: Buffer;
+  try {
+    data = zlib.gunzipSync(decimalToBytes(payload));
+  } catch (error) {
+    throw new SecureQrError('Secure QR payload could not be decompressed');
+  }
+
+  // Versioned payloads start with "V2", "V3", ...; V3 appends the last four mobile digits
+  const first = data.subarray(0, data.indexOf(DELIMITER)).toString('latin1');
+  const version = /^V\d+$/.test(first) ? first : 'V1';
+  const versionFields = version === 'V1' ? 0 : 1;
+  const extraFields = version === 'V1' || version === 'V2' ? 0 : 1;
+  const { fields, rest } = splitFields(data, versionFields + TEXT_FIELDS.length + extraFields);
+
+  const values = Object.fromEntries(TEXT_FIELDS.map((field, i) => [field, fields[versionFields + i]])) as Record<typeof TEXT_FIELDS[number], string>;
+  const indicator = parseInt(values.emailMobileIndicator);
+  if (!(indicator >= 0 && indicator <= 3)) {
+    throw new SecureQrError('Secure QR payload has an invalid email/mobile indicator');
+  }
+
+  const hasEmail = indicator === 1 || indicator === 3;
+  const hasMobile = indicator === 2 || indicator === 3;
+  const hashes = (hasEmail ? 1 : 0) + (hasMobile ? 1 : 0);
+  const photoLength = rest.length - SIGNATURE_LENGTH - hashes * HASH_LENGTH;
+  if (photoLength <= 0) {
+    throw new SecureQrError('Secure QR payload is truncated');
+  }
+
+  return {
+    version,
+    referenceId: values.referenceId,
+    aadhaarLastFour: values.referenceId.slice(0, 4),
+    name: values.name,
+    dob: values.dob,
+    gender: values.gender,
+    careOf: values.careOf,
+    house: values.house,
+    street: values.street,
+    landmark: values.landmark,
+    location: values.location,
+    vtc: values.vtc,
+    postOffice: values.postOffice,
+    subDistrict: values.subDistrict,
+    district: values.district,
+    state: values.state,
+    pincode: values.pincode,
+    mobileLastFour: extraFields ? fields[versionFields + TEXT_FIELDS.length] : undefined,
+    hasEmail,
+    hasMobile,
+    photo: rest.subarray(0, photoLength),
+    signedData: data.subarray(0, data.length - SIGNATURE_LENGTH),
+    signature: data.subarray(data.length - SIGNATURE_LENGTH),
+  };
+}
+
+export function secureQrToFields(qr: SecureQrData): DocumentFields {
+  const dob = parseDate(qr.dob, 'aadhaar');
+  const address = joinAddress([
+    qr.careOf, qr.house, qr.street, qr.landmark, qr.location, qr.vtc,
+    qr.postOffice, qr.subDistrict, qr.district, qr.state, qr.pincode,
+  ]);
+
+  return {
+    name: qr.name.trim() || undefined,
+    dob: dob ? formatDate(dob) : undefined,
+    gender: parseUidaiGender(qr.gender),
+    address,
+  };
+}
+
+// The photo is JPEG 2000, which sharp cannot read; MuPDF decodes it to PNG
+export function secureQrPhotoToPng(photo: Buffer): Buffer {
+  const image = new mupdf.Image(photo);
+  const pixmap = image.toPixmap();
+  try {
+    return Buffer.from(pixmap.asPNG());
+  } finally {
+    pixmap.destroy();
+    image.destroy();
+  }
+}
+
+// Verifies Secure QR signatures against UIDAI's public certificate
+export class SecureQrVerifier extends UidaiCertificate {
+  verify(qr: SecureQrData): SecureQrStatus {
+    const publicKey = this.load();
+    if (!publicKey) return 'no_certificate';
+    return crypto.verify('sha256', qr.signedData, publicKey, qr.signature) ? 'verified' : 'invalid_signature';
+  }
+}
+
+export const secureQrVerifier = new SecureQrVerifier(
+  process.env.AADHAAR_QR_CERT || path.resolve(process.cwd(), 'certs', 'uidai-secure-qr.cer'),
+);
@@ -0,0 +1,74 @@
+import { verhoeffValidate } from "./verhoeff";
+import { extractGender, extractLabelledValue, cleanName } from "./common";
+import { extractBirthDate, extractYearOfBirth } from "./dates";
+import type { DocumentParser, DocumentFields } from "./types";
+
+// Aadhaar numbers are printed as "XXXX XXXX XXXX" and never start with 0 or 1.
+// The lookarounds keep us from matching the first 12 digits of a 16-digit VID.
+const UID_PATTERN = /(?<!\d\s?)([2-9]\d{3})\s?(\d{4})\s?(\d{4})(?!\s?\d)/;
+
+const ADDRESS_LABEL_PATTERN = /^(?:Address|पता)\s*[:\-]?\s*/i;
+const RELATION_PATTERN = /^(?:S\/O|D\/O|W\/O|C\/O)\b/i;
+const PIN_CODE_PATTERN = /\b[1-9]\d{2}\s?\d{3}\b/;
+const MAX_ADDRESS_LINES = 6;
+
+// Finds the first 12-digit number whose Verhoeff check digit is valid.
+// Numbers that fail the checksum are treated as OCR misreads and skipped.
+export function extractAadhaarNumber(text: string): string | undefined {
+  for (const match of Array.from(text.matchAll(new RegExp(UID_PATTERN, 'g')))) {
+    const digits = match[1] + match[2] + match[3];
+    if (verhoeffValidate(digits)) {
+      return digits;
+    }
+  }
+  return undefined;
+}
+
+// The address block starts at an "Address"/"पता" label (or a S/O, C/O line on the
+// back of the card) and runs until the line carrying the PIN code.
+export function extractAddress(lines: string[]): string | undefined {
+  const start = lines.findIndex(line => ADDRESS_LABEL_PATTERN.test(line) || RELATION_PATTERN.test(line));
+  if (start === -1) return undefined;
+
+  const parts: string[] = [];
+  for (let i = start; i < lines.length && parts.length < MAX_ADDRESS_LINES; i++) {
+    const line = lines[i].replace(ADDRESS_LABEL_PATTERN, '').trim();
+    if (line.length > 0) {
+      parts.push(line);
+    }
+    if (PIN_CODE_PATTERN.test(line) && !UID_PATTERN.test(line)) {
+      break;
+    }
+  }
+
+  const address = parts.join(', ').replace(/\s+/g, ' ').replace(/,\s*,/g, ',').trim();
+  return address.length > 0 ? address : undefined;
+}
+
+export const aadhaarParser: DocumentParser = {
+  type: 'aadhaar',
+  label: 'Aadhaar',
+  sides: ['front', 'back'],
+  recognisers: [
+    /Unique\s+Identification\s+Authority/i,
+    /Government\s+of\s+India/i,
+    /भारत\s*सरकार/,
+    /आधार/,
+    /Aadhaar|Aadhar/i,
+    /\bVID\s*[:\-]/,
+    /Year\s*of\s*Birth|जन्म\s*वर्ष/i,
+  ],
+  extractDocumentNumber: extractAadhaarNumber,
+  extractFields(text: string, lines: string[], asOf: Date): DocumentFields {
+    const aadhaarNumber = extractAadhaarNumber(text);
+    return {
+      documentNumber: aadhaarNumber,
+      aadhaarNumber,
+      name: cleanName(extractLabelledValue(lines, /^(?:Name|नाम)\b/i)),
+      dob: extractBirthDate(lines, 'aadhaar', asOf),
+      gender: extractGender(text),
+      yearOfBirth: extractYearOfBirth(text, asOf),
+      address: extractAddress(lines),
+    };
+  },
+};
@@ -0,0 +1,52 @@
+import type { Gender } from "./types";
+
+const GENDER_LABELS: { pattern: RegExp; gender: Gender }[] = [
+  { pattern: /\b(?:transgender|TRANSGENDER)\b|ट्रांसजेंडर|तृतीय लिंग/, gender: 'transgender' },
+  { pattern: /\b(?:female|Female|FEMALE)\b|महिला|स्त्री/, gender: 'female' },
+  { pattern: /\b(?:male|Male|MALE)\b|पुरुष/, gender: 'male' },
+];
+
+export function splitLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+export function extractGender(text: string): Gender | undefined {
+  for (const { pattern, gender } of GENDER_LABELS) {
+    if (pattern.test(text)) {
+      return gender;
+    }
+  }
+  return undefined;
+}
+
+// Returns the value printed after a label, either on the same line ("Name: X")
+// or, when the label stands alone, on the following line.
+export function extractLabelledValue(lines: string[], label: RegExp): string | undefined {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(label);
+    if (!match) continue;
+
+    const rest = lines[i].slice((match.index || 0) + match[0].length).replace(/^[\s:\-\/]+/, '').trim();
+    if (rest.length > 0) return rest;
+    if (i + 1 < lines.length) return lines[i + 1];
+  }
+  return undefined;
+}
+
+export function cleanName(value: string | undefined): string | undefined {
+  const name = value?.replace(/[^a-zA-Z\s.]/g, '').replace(/\s+/g, ' ').trim();
+  return name && name.length > 1 ? name : undefined;
+}
+
+const UIDAI_GENDERS: Record<string, Gender> = { M: 'male', F: 'female', T: 'transgender' };
+
+// UIDAI's signed data (Secure QR, Offline e-KYC) codes gender as M, F or T
+export function parseUidaiGender(code: string): Gender | undefined {
+  return UIDAI_GENDERS[code.trim().toUpperCase()];
+}
+
+// UIDAI's structured address (care of, house, street, ... pincode) as one line
+export function joinAddress(parts: (string | undefined)[]): string | undefined {
+  const address = parts.map(part => part?.trim()).filter(Boolean).join(', ');
+  return address || undefined;
+}
@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ageFromYearOfBirth, calculateAge, extractBirthDate, extractLabelledDate, extractYearOfBirth,
+  findDates, normaliseDigits, parseDate,
+} from "./dates";
+
+const AS_OF = new Date(2024, 5, 1, 12);
+
+test('converts native-script digits to ASCII', () => {
+  assert.equal(normaliseDigits('१५/०८/१९९०'), '15/08/1990'); // Devanagari
+  assert.equal(normaliseDigits('௧௫-௦௮-௧௯௯௦'), '15-08-1990'); // Tamil
+  assert.equal(normaliseDigits('౧౫.౦౮.౧౯౯౦'), '15.08.1990'); // Telugu
+});
+
+test('parses numeric, ISO and month-name dates', () => {
+  assert.deepEqual(parseDate('15/08/1990'), { year: 1990, month: 8, day: 15 });
+  assert.deepEqual(parseDate('1990-08-15'), { year: 1990, month: 8, day: 15 });
+  assert.deepEqual(parseDate('15 AUG 1990'), { year: 1990, month: 8, day: 15 });
+  assert.deepEqual(parseDate('१५/०८/१९९०', 'aadhaar'), { year: 1990, month: 8, day: 15 });
+});
+
+test('reads day first on Indian documents and drops impossible dates', () => {
+  assert.deepEqual(parseDate('03/04/1990', 'aadhaar'), { year: 1990, month: 4, day: 3 });
+  // Only the month-first reading is a real date; Aadhaar never prints month first
+  assert.equal(parseDate('04/23/1990', 'aadhaar'), undefined);
+  assert.deepEqual(parseDate('04/23/1990'), { year: 1990, month: 4, day: 23 });
+  assert.equal(parseDate('30/02/1990'), undefined);
+  assert.equal(parseDate('29/02/2023'), undefined);
+  assert.deepEqual(parseDate('29/02/2024'), { year: 2024, month: 2, day: 29 });
+});
+
+test('labels dates as birth, issue or expiry', () => {
+  const lines = [
+    'Date of Issue Date of Expiry',
+    '01/02/2015 31/01/2035',
+    'जन्म तिथि / DOB: 15/08/1990',
+  ];
+  assert.deepEqual(findDates(lines, 'driving_licence').map(found => found.kind), ['issue', 'expiry', 'birth']);
+  assert.equal(extractLabelledDate(lines, 'expiry', 'driving_licence'), '31/01/2035');
+});
+
+test('never takes an issue date as the birth date', () => {
+  assert.equal(extractBirthDate(['Issue Date: 01/02/2015', 'DOB: 15/08/1990'], 'aadhaar', AS_OF), '15/08/1990');
+  assert.equal(extractBirthDate(['Issue Date: 01/02/2015'], 'aadhaar', AS_OF), undefined);
+  // A Telugu birth-date label
+  assert.equal(extractBirthDate(['పుట్టిన తేదీ ౧౫/౦౮/౧౯౯౦'], 'aadhaar', AS_OF), '15/08/1990');
+});
+
+test('ignores birth dates after asOf or implausibly old', () => {
+  assert.equal(extractBirthDate(['DOB: 15/08/2030'], 'aadhaar', AS_OF), undefined);
+  assert.equal(extractBirthDate(['DOB: 15/08/1890'], 'aadhaar', AS_OF), undefined);
+});
+
+test('reads a printed year of birth within asOf', () => {
+  assert.equal(extractYearOfBirth('Year of Birth : १९८५', AS_OF), 1985);
+  assert.equal(extractYearOfBirth('YOB: 2030', AS_OF), undefined);
+  assert.equal(extractYearOfBirth('YOB: 2030', new Date(2031, 0, 1, 12)), 2030);
+});
+
+test('counts completed years on the asOf date', () => {
+  const dob = { year: 2006, month: 6, day: 2 };
+  assert.equal(calculateAge(dob, new Date(2024, 5, 1, 12)), 17);
+  assert.equal(calculateAge(dob, new Date(2024, 5, 2, 12)), 18);
+  assert.equal(calculateAge({ year: 2030, month: 1, day: 1 }, AS_OF), undefined);
+  // Born on 29 February: a year older on 1 March in common years
+  assert.equal(calculateAge({ year: 2004, month: 2, day: 29 }, new Date(2022, 1, 28, 12)), 17);
+  assert.equal(calculateAge({ year: 2004, month: 2, day: 29 }, new Date(2022, 2, 1, 12)), 18);
+  assert.equal(ageFromYearOfBirth(2006, AS_OF), 17);
+});
@@ -0,0 +1,223 @@
+import type { DocumentType } from "./types";
+
+// Date extraction for printed documents: native-script numerals, labelled dates
+// (birth, issue, expiry), per-document day/month order and calendar validation.
+// Extracted dates are formatted as DD/MM/YYYY throughout the pipeline.
+
+export type DateOrder = 'DMY' | 'MDY';
+export type DateKind = 'birth' | 'issue' | 'expiry';
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface FoundDate {
+  date: CalendarDate;
+  text: string;
+  kind?: DateKind;
+}
+
+// Documents that always print day first. Types not listed prefer day first but
+// fall back to month first when that is the only valid reading.
+const DOCUMENT_DATE_ORDER: Partial<Record<DocumentType, DateOrder>> = {
+  aadhaar: 'DMY',
+  pan: 'DMY',
+  passport: 'DMY',
+  driving_licence: 'DMY',
+  voter_id: 'DMY',
+};
+
+// Code point of zero in each Indic script; the nine digits follow it
+const NATIVE_DIGIT_ZEROS = [
+  0x0966, // Devanagari
+  0x09E6, // Bengali
+  0x0A66, // Gurmukhi
+  0x0AE6, // Gujarati
+  0x0B66, // Odia
+  0x0BE6, // Tamil
+  0x0C66, // Telugu
+  0x0CE6, // Kannada
+  0x0D66, // Malayalam
+];
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const NUMERIC_DATE = /(?<!\d)(\d{1,2})\s*[\/\-\.]\s*(\d{1,2})\s*[\/\-\.]\s*(\d{4})(?!\d)/g;
+const ISO_DATE = /(?<!\d)(\d{4})\s*[\/\-\.]\s*(\d{1,2})\s*[\/\-\.]\s*(\d{1,2})(?!\d)/g;
+const TEXT_DATE = /(?<!\d)(\d{1,2})[\s\-\/\.]*(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)[A-Z]*\.?[\s\-\/\.,]*(\d{4})(?!\d)/gi;
+
+const DATE_LABELS: { kind: DateKind; pattern: RegExp }[] = [
+  {
+    kind: 'birth',
+    pattern: /\bD\.?\s?O\.?\s?B\b\.?|Date\s*of\s*Birth|Birth\s*Date|जन्म\s*(?:की\s*)?(?:तिथि|तारीख)|(?:పుట్టిన|జన్మ)\s*తేదీ/gi,
+  },
+  {
+    kind: 'issue',
+    pattern: /Date\s*of\s*(?:First\s*)?Issue|Issue\s*Date|Issued\s*(?:on|date)?|\bDOI\b|Download\s*Date|जारी\s*(?:करने\s*की\s*)?(?:तिथि|तारीख)|జారీ\s*తేదీ/gi,
+  },
+  {
+    kind: 'expiry',
+    pattern: /Date\s*of\s*Expiry|Expiry(?:\s*Date)?|Expires|Valid\s*(?:Till|Upto|Up\s*to|Until|Thru)|Validity|समाप्ति(?:\s*की\s*(?:तिथि|तारीख))?|గడువు\s*తేదీ/gi,
+  },
+];
+
+const YEAR_OF_BIRTH_PATTERN = /(?:Year\s*of\s*Birth|\bYOB\b|जन्म\s*वर्ष|పుట్టిన\s*సంవత్సరం)\s*[:\-\/]?\s*((?:19|20)\d{2})(?!\d)/i;
+
+// Oldest plausible holder; earlier "birth" dates are misreads
+const MAX_AGE_YEARS = 120;
+
+export function normaliseDigits(text: string): string {
+  return text.replace(/[०-९০-৯੦-੯૦-૯୦-୯௦-௯౦-౯೦-೯൦-൯]/g, char => {
+    const code = char.charCodeAt(0);
+    const zero = NATIVE_DIGIT_ZEROS.find(start => code >= start && code <= start + 9)!;
+    return String(code - zero);
+  });
+}
+
+export function isValidDate(year: number, month: number, day: number): boolean {
+  if (year < 1900 || year > 2100 || month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export function formatDate(date: CalendarDate): string {
+  return `${String(date.day).padStart(2, '0')}/${String(date.month).padStart(2, '0')}/${date.year}`;
+}
+
+export function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+export function toCalendarDate(date: Date): CalendarDate {
+  return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+}
+
+export function getDateOrder(documentType: DocumentType): DateOrder | undefined {
+  return DOCUMENT_DATE_ORDER[documentType];
+}
+
+// Reads "a/b/yyyy" in the document's order. Without a fixed order, day first wins
+// unless only the month-first reading is a real date.
+function resolveNumeric(a: number, b: number, year: number, order: DateOrder | undefined): CalendarDate | undefined {
+  const dayFirst = isValidDate(year, b, a) ? { year, month: b, day: a } : undefined;
+  const monthFirst = isValidDate(year, a, b) ? { year, month: a, day: b } : undefined;
+
+  if (order === 'DMY') return dayFirst;
+  if (order === 'MDY') return monthFirst;
+  return dayFirst || monthFirst;
+}
+
+// Every valid date in a string, in reading order. Impossible dates are dropped.
+export function findDatesInText(text: string, documentType: DocumentType = 'unknown'): { date: CalendarDate; text: string; index: number }[] {
+  const value = normaliseDigits(text);
+  const order = getDateOrder(documentType);
+  const found: { date: CalendarDate; text: string; index: number }[] = [];
+
+  for (const match of Array.from(value.matchAll(ISO_DATE))) {
+    const [year, month, day] = [match[1], match[2], match[3]].map(Number);
+    if (isValidDate(year, month, day)) found.push({ date: { year, month, day }, text: match[0], index: match.index! });
+  }
+
+  for (const match of Array.from(value.matchAll(NUMERIC_DATE))) {
+    const date = resolveNumeric(Number(match[1]), Number(match[2]), Number(match[3]), order);
+    if (date) found.push({ date, text: match[0], index: match.index! });
+  }
+
+  for (const match of Array.from(value.matchAll(TEXT_DATE))) {
+    const [day, year] = [Number(match[1]), Number(match[3])];
+    const month = MONTHS.indexOf(match[2].toUpperCase()) + 1;
+    if (isValidDate(year, month, day)) found.push({ date: { year, month, day }, text: match[0], index: match.index! });
+  }
+
+  // The patterns cannot overlap on a real date; keep the earliest if OCR noise makes them
+  found.sort((a, b) => a.index - b.index);
+  return found.filter((entry, i) => i === 0 || entry.index >= found[i - 1].index + found[i - 1].text.length);
+}
+
+export function parseDate(text: string, documentType: DocumentType = 'unknown'): CalendarDate | undefined {
+  return findDatesInText(text, documentType)[0]?.date;
+}
+
+function findLabels(line: string): { kind: DateKind; index: number }[] {
+  const labels: { kind: DateKind; index: number }[] = [];
+  for (const { kind, pattern } of DATE_LABELS) {
+    for (const match of Array.from(line.matchAll(pattern))) {
+      labels.push({ kind, index: match.index! });
+    }
+  }
+  return labels.sort((a, b) => a.index - b.index);
+}
+
+// Finds every date and what it is. A date takes the nearest label before it on
+// its line; a line of bare dates under a line of bare labels ("Date of Issue
+// Date of Expiry" over "01/02/2015 31/01/2025") is paired up in order.
+export function findDates(lines: string[], documentType: DocumentType = 'unknown'): FoundDate[] {
+  const results: FoundDate[] = [];
+  let pendingLabels: DateKind[] = [];
+
+  for (const line of lines) {
+    const labels = findLabels(line);
+    const dates = findDatesInText(line, documentType);
+
+    if (dates.length === 0) {
+      pendingLabels = labels.map(label => label.kind);
+      continue;
+    }
+
+    dates.forEach((found, i) => {
+      const before = labels.filter(label => label.index < found.index);
+      const kind = before.length > 0 ? before[before.length - 1].kind : (labels.length === 0 ? pendingLabels[i] : undefined);
+      results.push({ date: found.date, text: found.text, kind });
+    });
+    pendingLabels = [];
+  }
+
+  return results;
+}
+
+function isPlausibleBirthDate(date: CalendarDate, asOf: Date): boolean {
+  const today = toCalendarDate(asOf);
+  return compareDates(date, today) <= 0 && today.year - date.year <= MAX_AGE_YEARS;
+}
+
+// A labelled birth date wins; otherwise the first date not labelled as an issue
+// or expiry date. Dates in the future or implausibly old are ignored.
+export function extractBirthDate(lines: string[], documentType: DocumentType, asOf: Date): string | undefined {
+  const candidates = findDates(lines, documentType).filter(found => isPlausibleBirthDate(found.date, asOf));
+  const found = candidates.find(candidate => candidate.kind === 'birth') || candidates.find(candidate => !candidate.kind);
+  return found ? formatDate(found.date) : undefined;
+}
+
+export function extractLabelledDate(lines: string[], kind: DateKind, documentType: DocumentType): string | undefined {
+  const found = findDates(lines, documentType).find(candidate => candidate.kind === kind);
+  return found ? formatDate(found.date) : undefined;
+}
+
+// Older Aadhaar cards and some voter IDs print only the year of birth
+export function extractYearOfBirth(text: string, asOf: Date): number | undefined {
+  const match = normaliseDigits(text).match(YEAR_OF_BIRTH_PATTERN);
+  if (!match) return undefined;
+
+  const year = parseInt(match[1]);
+  return year <= asOf.getFullYear() && asOf.getFullYear() - year <= MAX_AGE_YEARS ? year : undefined;
+}
+
+// Completed years on the asOf date. Someone born on 29 February turns a year
+// older on 1 March in common years.
+export function calculateAge(dob: CalendarDate, asOf: Date): number | undefined {
+  const today = toCalendarDate(asOf);
+  if (compareDates(dob, today) > 0) return undefined;
+
+  let age = today.year - dob.year;
+  if (today.month < dob.month || (today.month === dob.month && today.day < dob.day)) {
+    age--;
+  }
+  return age;
+}
+
+// With only a year of birth, assume the birthday has not happened yet this year
+export function ageFromYearOfBirth(year: number, asOf: Date): number | undefined {
+  const age = asOf.getFullYear() - year - 1;
+  return age >= 0 ? age : undefined;
+}
@@ -0,0 +1,37 @@
+import { extractLabelledValue, cleanName } from "./common";
+import { extractBirthDate, extractLabelledDate } from "./dates";
+import type { DocumentParser, DocumentFields } from "./types";
+
+// State code, RTO code, year of issue and a seven-digit serial, e.g. "MH12 20110012345"
+const DL_NUMBER_PATTERN = /\b([A-Z]{2})[\s\-]?(\d{2})[\s\-]?((?:19|20)\d{2})[\s\-]?(\d{7})\b/;
+
+export function extractLicenceNumber(text: string): string | undefined {
+  const match = text.match(DL_NUMBER_PATTERN);
+  return match ? match.slice(1, 5).join('') : undefined;
+}
+
+export const drivingLicenceParser: DocumentParser = {
+  type: 'driving_licence',
+  label: 'Driving Licence',
+  sides: ['front', 'back'],
+  recognisers: [
+    /DRIVING\s*LICEN[CS]E/i,
+    /ड्राइविंग\s*लाइसेंस/,
+    /\bDL\s*No\b/i,
+    /Transport\s*Department/i,
+    /Valid\s*Till/i,
+    /\bCOV\b|Class\s*of\s*Vehicle/i,
+    /\bLMV\b|\bMCWG\b/,
+  ],
+  extractDocumentNumber: extractLicenceNumber,
+  extractFields(text: string, lines: string[], asOf: Date): DocumentFields {
+    return {
+      documentNumber: extractLicenceNumber(text),
+      name: cleanName(extractLabelledValue(lines, /^Name\b/i)),
+      fatherName: cleanName(extractLabelledValue(lines, /S\/?D\/?W\s*of|Son\/Daughter\/Wife\s*of/i)),
+      dob: extractBirthDate(lines, 'driving_licence', asOf),
+      address: extractLabelledValue(lines, /^Address\b/i),
+      expiryDate: extractLabelledDate(lines, 'expiry', 'driving_licence'),
+    };
+  },
+};
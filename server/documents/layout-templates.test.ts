@@ -0,0 +1,119 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { LayoutTemplateRegistry, validateLayoutTemplate, type LayoutTemplate, type LayoutZone } from "./layout-templates";
+
+// Templates checked against the configured OCR languages in tessdata; registries
+// read throwaway directories
+
+function zone(overrides: Partial<LayoutZone> = {}): LayoutZone {
+  return {
+    name: 'dob',
+    field: 'dob',
+    box: { x: 0.1, y: 0.4, width: 0.5, height: 0.1 },
+    script: 'Latin',
+    pattern: '(\\d{2}/\\d{2}/\\d{4})',
+    ...overrides,
+  };
+}
+
+function template(overrides: Partial<LayoutTemplate> = {}): LayoutTemplate {
+  return { id: 'test-card', documentType: 'pan', zones: [zone()], ...overrides };
+}
+
+function templateDir(files: Record<string, unknown>): string {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'layouts-'));
+  for (const [file, contents] of Object.entries(files)) {
+    fs.writeFileSync(path.join(directory, file), typeof contents === 'string' ? contents : JSON.stringify(contents));
+  }
+  return directory;
+}
+
+test('accepts the shipped templates', () => {
+  const registry = new LayoutTemplateRegistry(path.resolve(process.cwd(), 'layouts'));
+  assert.deepEqual(registry.load().map(loaded => loaded.id).sort(), ['aadhaar-back', 'aadhaar-front', 'pan-card']);
+  for (const loaded of registry.load()) {
+    assert.deepEqual(validateLayoutTemplate(loaded), []);
+  }
+});
+
+test('accepts boxes that reach the edge of the card', () => {
+  assert.deepEqual(validateLayoutTemplate(template({ zones: [zone({ box: { x: 0, y: 0, width: 1, height: 1 } })] })), []);
+});
+
+test('refuses boxes that leave the card or have no area', () => {
+  const problems = (box: LayoutZone['box']) => validateLayoutTemplate(template({ zones: [zone({ box })] }));
+
+  assert.deepEqual(problems({ x: 0.6, y: 0.4, width: 0.5, height: 0.1 }), ["zone 'dob' box must be fractions of the card that stay inside it"]);
+  assert.equal(problems({ x: 0.1, y: 0.95, width: 0.5, height: 0.1 }).length, 1);
+  assert.equal(problems({ x: 0.1, y: 0.4, width: 0, height: 0.1 }).length, 1);
+  assert.equal(problems({ x: -0.1, y: 0.4, width: 0.5, height: 0.1 }).length, 1);
+  // Pixels rather than fractions
+  assert.equal(problems({ x: 20, y: 80, width: 300, height: 40 }).length, 1);
+
+  assert.deepEqual(validateLayoutTemplate(template({ portrait: { x: 0.9, y: 0.3, width: 0.2, height: 0.3 } })), [
+    'portrait box must be fractions of the card that stay inside it',
+  ]);
+});
+
+test('reports every problem with a template at once', () => {
+  const problems = validateLayoutTemplate(template({
+    documentType: 'library_card' as LayoutTemplate['documentType'],
+    zones: [
+      zone(),
+      zone({ field: 'shoeSize' as LayoutZone['field'], script: 'Cyrillic', mode: 'page' as LayoutZone['mode'], pattern: '(\\d' }),
+    ],
+  }));
+
+  assert.deepEqual(problems, [
+    "unknown documentType 'library_card'",
+    "zone 'dob' is declared twice",
+    "zone 'dob' has unknown field 'shoeSize'",
+    "zone 'dob' uses script 'Cyrillic' with no configured language",
+    "zone 'dob' has unknown mode 'page'",
+    "zone 'dob' pattern is not a valid regular expression",
+  ]);
+  assert.deepEqual(validateLayoutTemplate(template({ zones: [] })), ['no zones']);
+});
+
+test('skips invalid files and duplicate ids without dropping the rest', () => {
+  const registry = new LayoutTemplateRegistry(templateDir({
+    'a.json': template({ id: 'first' }),
+    'b.json': template({ id: 'first', documentType: 'aadhaar' }),
+    'c.json': '{ not json',
+    'd.json': template({ id: 'bad-box', zones: [zone({ box: { x: 0.8, y: 0, width: 0.5, height: 0.1 } })] }),
+    'notes.txt': 'not a template',
+  }));
+
+  assert.deepEqual(registry.load().map(loaded => loaded.id), ['first']);
+  // The first file by name wins the id
+  assert.equal(registry.getTemplate('first')?.documentType, 'pan');
+});
+
+test('maps templates to document types and sides, front by default', () => {
+  const registry = new LayoutTemplateRegistry(templateDir({
+    'front.json': template({ id: 'front' }),
+    'back.json': template({ id: 'back', side: 'back' }),
+    'other.json': template({ id: 'other', documentType: 'aadhaar' }),
+  }));
+
+  assert.deepEqual(registry.getTemplates('pan').map(loaded => loaded.id), ['front']);
+  assert.deepEqual(registry.getTemplates('pan', 'back').map(loaded => loaded.id), ['back']);
+  assert.deepEqual(registry.getTemplates('passport'), []);
+});
+
+test('picks up added and removed files without a restart', () => {
+  const directory = templateDir({ 'first.json': template({ id: 'first' }) });
+  const registry = new LayoutTemplateRegistry(directory);
+  assert.equal(registry.load().length, 1);
+
+  fs.writeFileSync(path.join(directory, 'second.json'), JSON.stringify(template({ id: 'second' })));
+  assert.deepEqual(registry.load().map(loaded => loaded.id), ['first', 'second']);
+
+  fs.rmSync(path.join(directory, 'first.json'));
+  assert.deepEqual(registry.load().map(loaded => loaded.id), ['second']);
+
+  assert.deepEqual(new LayoutTemplateRegistry(path.join(directory, 'missing')).load(), []);
+});
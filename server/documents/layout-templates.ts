@@ -0,0 +1,164 @@
+import fs from "fs";
+import path from "path";
+import { languageAssets } from "../ocr/language-assets";
+import type { DocumentFields, DocumentSide, DocumentType } from "./types";
+
+// Layout templates describe where each field is printed on a rectified card, so
+// values can be read from their own zone instead of being picked out of
+// whole-page OCR. Templates are plain JSON files in the layout directory and are
+// re-read when a file is added, edited or removed, so new card designs do not
+// need a code change or a restart.
+
+export type ZoneMode = 'line' | 'block' | 'word';
+
+// Fractions of the rectified card width and height, origin at the top left
+export interface LayoutBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutZone {
+  name: string;
+  // Document field the zone fills; zones without one are read and reported only
+  field?: keyof DocumentFields;
+  box: LayoutBox;
+  // Matched against the "script" of a configured OCR language pack
+  script: string;
+  // Tested against each OCR line in the zone, or the whole zone text joined into
+  // one line for 'block' zones; capture group 1 is the value if present
+  pattern: string;
+  // Tesseract page segmentation for the crop, 'line' by default
+  mode?: ZoneMode;
+  whitelist?: string;
+}
+
+export interface LayoutTemplate {
+  id: string;
+  documentType: DocumentType;
+  // Side of the card the zones are measured on, 'front' by default
+  side?: DocumentSide;
+  description?: string;
+  // Where the holder's photo is printed, for cropping it out for face comparison
+  portrait?: LayoutBox;
+  zones: LayoutZone[];
+}
+
+const DOCUMENT_TYPES: DocumentType[] = ['aadhaar', 'pan', 'passport', 'driving_licence', 'voter_id', 'id_card', 'unknown'];
+const FIELDS: (keyof DocumentFields)[] = [
+  'documentNumber', 'name', 'dob', 'gender', 'fatherName', 'address', 'aadhaarNumber', 'yearOfBirth', 'expiryDate', 'nationality',
+];
+const MODES: ZoneMode[] = ['line', 'block', 'word'];
+const SIDES: DocumentSide[] = ['front', 'back'];
+
+function isFraction(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function isValidBox(box: LayoutBox | undefined): boolean {
+  return !!box && [box.x, box.y, box.width, box.height].every(isFraction)
+    && box.width > 0 && box.height > 0 && box.x + box.width <= 1 && box.y + box.height <= 1;
+}
+
+// Returns every problem with a template so one log line explains why it was skipped
+export function validateLayoutTemplate(template: LayoutTemplate): string[] {
+  const problems: string[] = [];
+  const scripts = new Set(languageAssets.getLanguages().map(pack => pack.script));
+
+  if (!template.id || typeof template.id !== 'string') problems.push('missing id');
+  if (!DOCUMENT_TYPES.includes(template.documentType)) problems.push(`unknown documentType '${template.documentType}'`);
+  if (template.side && !SIDES.includes(template.side)) problems.push(`unknown side '${template.side}'`);
+  if (template.portrait && !isValidBox(template.portrait)) problems.push('portrait box must be fractions of the card that stay inside it');
+  if (!Array.isArray(template.zones) || template.zones.length === 0) {
+    problems.push('no zones');
+    return problems;
+  }
+
+  const names = new Set<string>();
+  for (const zone of template.zones) {
+    const label = `zone '${zone.name}'`;
+    if (!zone.name) problems.push('zone without a name');
+    if (names.has(zone.name)) problems.push(`${label} is declared twice`);
+    names.add(zone.name);
+
+    if (zone.field && !FIELDS.includes(zone.field)) problems.push(`${label} has unknown field '${zone.field}'`);
+    if (!scripts.has(zone.script)) problems.push(`${label} uses script '${zone.script}' with no configured language`);
+    if (zone.mode && !MODES.includes(zone.mode)) problems.push(`${label} has unknown mode '${zone.mode}'`);
+
+    if (!isValidBox(zone.box)) {
+      problems.push(`${label} box must be fractions of the card that stay inside it`);
+    }
+
+    try {
+      new RegExp(zone.pattern);
+    } catch (error) {
+      problems.push(`${label} pattern is not a valid regular expression`);
+    }
+  }
+
+  return problems;
+}
+
+export class LayoutTemplateRegistry {
+  private directory: string;
+  private templates: LayoutTemplate[];
+  private signature: string | null;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+    this.templates = [];
+    this.signature = null;
+  }
+
+  // Invalid files are logged and skipped rather than thrown: whole-page OCR still
+  // works without a template, and one bad edit should not stop document uploads.
+  load(): LayoutTemplate[] {
+    const files = this.listFiles();
+    const signature = files.map(file => `${file}:${fs.statSync(path.join(this.directory, file)).mtimeMs}`).join('|');
+    if (signature === this.signature) return this.templates;
+
+    const templates: LayoutTemplate[] = [];
+    const ids = new Set<string>();
+    for (const file of files) {
+      let template: LayoutTemplate;
+      try {
+        template = JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf-8'));
+      } catch (error) {
+        console.error(`Layout template ${file} skipped: not valid JSON`);
+        continue;
+      }
+
+      const problems = validateLayoutTemplate(template);
+      if (ids.has(template.id)) problems.push(`duplicate id '${template.id}'`);
+      if (problems.length > 0) {
+        console.error(`Layout template ${file} skipped:\n  ${problems.join('\n  ')}`);
+        continue;
+      }
+
+      ids.add(template.id);
+      templates.push(template);
+    }
+
+    this.templates = templates;
+    this.signature = signature;
+    return this.templates;
+  }
+
+  getTemplates(documentType: DocumentType, side: DocumentSide = 'front'): LayoutTemplate[] {
+    return this.load().filter(template => template.documentType === documentType && (template.side || 'front') === side);
+  }
+
+  getTemplate(id: string): LayoutTemplate | undefined {
+    return this.load().find(template => template.id === id);
+  }
+
+  private listFiles(): string[] {
+    if (!fs.existsSync(this.directory)) return [];
+    return fs.readdirSync(this.directory).filter(file => file.endsWith('.json')).sort();
+  }
+}
+
+export const layoutTemplates = new LayoutTemplateRegistry(
+  process.env.LAYOUT_TEMPLATE_DIR || path.resolve(process.cwd(), 'layouts'),
+);
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compareMrzWithVisualZone, computeCheckDigit, parseMrz } from "./mrz";
+
+// Specimen machine-readable zones from ICAO Doc 9303 (the fictional state "Utopia")
+const TD3 = [
+  'P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<',
+  'L898902C36UTO7408122F1204159ZE184226B<<<<<10',
+].join('\n');
+
+const TD1 = [
+  'I<UTOD231458907<<<<<<<<<<<<<<<',
+  '7408122F1204159UTO<<<<<<<<<<<6',
+  'ERIKSSON<<ANNA<MARIA<<<<<<<<<<',
+].join('\n');
+
+const AS_OF = new Date(2010, 0, 1, 12);
+
+test('computes check digits with the 7-3-1 weighting', () => {
+  assert.equal(computeCheckDigit('L898902C3'), 6);
+  assert.equal(computeCheckDigit('740812'), 2);
+  assert.equal(computeCheckDigit('120415'), 9);
+  assert.equal(computeCheckDigit('<<<'), 0);
+  assert.equal(computeCheckDigit('a'), -1);
+});
+
+test('parses a TD3 passport zone and passes every check', () => {
+  const mrz = parseMrz(`REPUBLIC OF UTOPIA\nPASSPORT\n${TD3}`, AS_OF);
+
+  assert.ok(mrz);
+  assert.equal(mrz.format, 'TD3');
+  assert.equal(mrz.surname, 'ERIKSSON');
+  assert.equal(mrz.givenNames, 'ANNA MARIA');
+  assert.equal(mrz.documentNumber, 'L898902C3');
+  assert.equal(mrz.dob, '12/08/1974');
+  assert.equal(mrz.expiryDate, '15/04/2012');
+  assert.equal(mrz.sex, 'female');
+  assert.equal(mrz.valid, true);
+});
+
+test('parses a TD1 identity card zone', () => {
+  const mrz = parseMrz(TD1, AS_OF);
+
+  assert.ok(mrz);
+  assert.equal(mrz.format, 'TD1');
+  assert.equal(mrz.documentNumber, 'D23145890');
+  assert.equal(mrz.nationality, 'UTO');
+  assert.equal(mrz.valid, true);
+});
+
+test('corrects letters misread in numeric fields', () => {
+  // OCR read the 0 of the birth date as O and the 1 of the expiry as I
+  const misread = TD3.replace('7408122F1204159', '74O8122FI204159');
+  assert.equal(parseMrz(misread, AS_OF)?.valid, true);
+});
+
+test('fails the check digits of a changed field', () => {
+  const altered = TD3.replace('7408122', '7508122');
+  const mrz = parseMrz(altered, AS_OF);
+
+  assert.equal(mrz?.checks.dob, false);
+  assert.equal(mrz?.checks.composite, false);
+  assert.equal(mrz?.valid, false);
+});
+
+test('reports where the visual zone disagrees with the MRZ', () => {
+  const mrz = parseMrz(TD3, AS_OF)!;
+
+  assert.deepEqual(compareMrzWithVisualZone(mrz, { name: 'Anna Maria Eriksson', dob: '12/08/1974', documentNumber: 'L898902C3' }), []);
+  assert.deepEqual(
+    compareMrzWithVisualZone(mrz, { dob: '21/08/1974', gender: 'male' }).map(mismatch => mismatch.field),
+    ['dob', 'gender'],
+  );
+});
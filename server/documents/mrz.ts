@@ -0,0 +1,246 @@
+import type { DocumentFields, Gender } from "./types";
+import { formatDate, isValidDate } from "./dates";
+
+// ICAO 9303 machine-readable zone parsing for TD3 (passport, 2 x 44) and TD1 (ID card, 3 x 30)
+
+export type MrzFormat = 'TD3' | 'TD1';
+
+export interface MrzChecks {
+  documentNumber: boolean;
+  dob: boolean;
+  expiryDate: boolean;
+  personalNumber?: boolean;
+  composite: boolean;
+}
+
+export interface MrzResult {
+  format: MrzFormat;
+  documentCode: string;
+  issuingCountry: string;
+  surname: string;
+  givenNames: string;
+  documentNumber: string;
+  nationality: string;
+  dob?: string; // DD/MM/YYYY, matching the visual zone
+  sex?: Gender;
+  expiryDate?: string; // DD/MM/YYYY
+  checks: MrzChecks;
+  valid: boolean;
+}
+
+export interface MrzMismatch {
+  field: 'name' | 'dob' | 'documentNumber' | 'gender' | 'expiryDate';
+  mrz: string;
+  visual: string;
+}
+
+const CHECK_WEIGHTS = [7, 3, 1];
+
+// OCR commonly confuses these letters with digits inside numeric MRZ fields
+const DIGIT_CORRECTIONS: Record<string, string> = {
+  O: '0', Q: '0', D: '0', I: '1', L: '1', Z: '2', S: '5', G: '6', B: '8',
+};
+
+function charValue(char: string): number {
+  if (char === '<') return 0;
+  if (char >= '0' && char <= '9') return char.charCodeAt(0) - 48;
+  if (char >= 'A' && char <= 'Z') return char.charCodeAt(0) - 55;
+  return -1;
+}
+
+export function computeCheckDigit(value: string): number {
+  let sum = 0;
+  for (let i = 0; i < value.length; i++) {
+    const v = charValue(value[i]);
+    if (v < 0) return -1;
+    sum += v * CHECK_WEIGHTS[i % 3];
+  }
+  return sum % 10;
+}
+
+function verifyCheckDigit(value: string, checkDigit: string): boolean {
+  // A filler check digit is allowed only when the whole field is empty
+  if (checkDigit === '<') return /^<*$/.test(value);
+  return computeCheckDigit(value) === parseInt(checkDigit);
+}
+
+function toDigits(value: string): string {
+  return value.replace(/[A-Z]/g, char => DIGIT_CORRECTIONS[char] ?? char);
+}
+
+// Normalises an OCR line to MRZ characters and pads or trims it to the expected width
+function normaliseLine(line: string, width: number): string {
+  const cleaned = line
+    .toUpperCase()
+    .replace(/\s+/g, '')
+    .replace(/[«‹{\[(]/g, '<');
+  return cleaned.length >= width ? cleaned.slice(0, width) : cleaned.padEnd(width, '<');
+}
+
+function candidateLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.toUpperCase().replace(/\s+/g, '').replace(/[«‹{\[(]/g, '<'))
+    .filter(line => /^[A-Z0-9<]{26,48}$/.test(line) && line.includes('<'));
+}
+
+function parseName(field: string): { surname: string; givenNames: string } {
+  const [surname, ...rest] = field.split('<<');
+  return {
+    surname: surname.replace(/</g, ' ').trim(),
+    givenNames: rest.join(' ').replace(/</g, ' ').replace(/\s+/g, ' ').trim(),
+  };
+}
+
+function parseSex(char: string): Gender | undefined {
+  if (char === 'M') return 'male';
+  if (char === 'F') return 'female';
+  if (char === 'X') return 'transgender';
+  return undefined;
+}
+
+// YYMMDD -> DD/MM/YYYY. Birth dates after asOf belong to the previous century;
+// expiry dates are always this century.
+function parseMrzDate(value: string, kind: 'birth' | 'expiry', asOf: Date): string | undefined {
+  if (!/^\d{6}$/.test(value)) return undefined;
+
+  const yy = parseInt(value.slice(0, 2));
+  const month = parseInt(value.slice(2, 4));
+  const day = parseInt(value.slice(4, 6));
+
+  const currentYY = asOf.getFullYear() % 100;
+  const century = kind === 'birth' && yy > currentYY ? 1900 : 2000;
+  const year = century + yy;
+  return isValidDate(year, month, day) ? formatDate({ year, month, day }) : undefined;
+}
+
+function parseTD3(line1: string, line2: string, asOf: Date): MrzResult {
+  const documentNumber = line2.slice(0, 9);
+  const dob = toDigits(line2.slice(13, 19));
+  const expiry = toDigits(line2.slice(21, 27));
+  const personalNumber = line2.slice(28, 42);
+  const composite = line2.slice(0, 10) + dob + toDigits(line2[19]) + expiry + toDigits(line2[27]) + personalNumber + toDigits(line2[42]);
+
+  const checks: MrzChecks = {
+    documentNumber: verifyCheckDigit(documentNumber, toDigits(line2[9])),
+    dob: verifyCheckDigit(dob, toDigits(line2[19])),
+    expiryDate: verifyCheckDigit(expiry, toDigits(line2[27])),
+    personalNumber: verifyCheckDigit(personalNumber, toDigits(line2[42])),
+    composite: verifyCheckDigit(composite, toDigits(line2[43])),
+  };
+
+  return {
+    format: 'TD3',
+    documentCode: line1.slice(0, 2).replace(/</g, ''),
+    issuingCountry: line1.slice(2, 5).replace(/</g, ''),
+    ...parseName(line1.slice(5)),
+    documentNumber: documentNumber.replace(/</g, ''),
+    nationality: line2.slice(10, 13).replace(/</g, ''),
+    dob: parseMrzDate(dob, 'birth', asOf),
+    sex: parseSex(line2[20]),
+    expiryDate: parseMrzDate(expiry, 'expiry', asOf),
+    checks,
+    valid: Object.values(checks).every(Boolean),
+  };
+}
+
+function parseTD1(line1: string, line2: string, line3: string, asOf: Date): MrzResult {
+  const documentNumber = line1.slice(5, 14);
+  const dob = toDigits(line2.slice(0, 6));
+  const expiry = toDigits(line2.slice(8, 14));
+  const composite = line1.slice(5, 30) + dob + toDigits(line2[6]) + expiry + toDigits(line2[14]) + line2.slice(18, 29);
+
+  const checks: MrzChecks = {
+    documentNumber: verifyCheckDigit(documentNumber, toDigits(line1[14])),
+    dob: verifyCheckDigit(dob, toDigits(line2[6])),
+    expiryDate: verifyCheckDigit(expiry, toDigits(line2[14])),
+    composite: verifyCheckDigit(composite, toDigits(line2[29])),
+  };
+
+  return {
+    format: 'TD1',
+    documentCode: line1.slice(0, 2).replace(/</g, ''),
+    issuingCountry: line1.slice(2, 5).replace(/</g, ''),
+    ...parseName(line3),
+    documentNumber: documentNumber.replace(/</g, ''),
+    nationality: line2.slice(15, 18).replace(/</g, ''),
+    dob: parseMrzDate(dob, 'birth', asOf),
+    sex: parseSex(line2[7]),
+    expiryDate: parseMrzDate(expiry, 'expiry', asOf),
+    checks,
+    valid: Object.values(checks).every(Boolean),
+  };
+}
+
+// Looks for a TD3 pair (line 1 starts with "P") or a TD1 triple (line 1 starts with I, A or C)
+export function parseMrz(text: string, asOf: Date): MrzResult | undefined {
+  const lines = candidateLines(text);
+
+  for (let i = 0; i + 1 < lines.length; i++) {
+    if (/^P[A-Z<]/.test(lines[i]) && lines[i].length >= 40) {
+      return parseTD3(normaliseLine(lines[i], 44), normaliseLine(lines[i + 1], 44), asOf);
+    }
+  }
+
+  for (let i = 0; i + 2 < lines.length; i++) {
+    if (/^[IAC][A-Z<]/.test(lines[i]) && lines[i].length <= 34) {
+      return parseTD1(normaliseLine(lines[i], 30), normaliseLine(lines[i + 1], 30), normaliseLine(lines[i + 2], 30), asOf);
+    }
+  }
+
+  return undefined;
+}
+
+export function mrzToFields(mrz: MrzResult): DocumentFields {
+  const name = [mrz.givenNames, mrz.surname].filter(Boolean).join(' ');
+  return {
+    documentNumber: mrz.documentNumber || undefined,
+    name: name || undefined,
+    dob: mrz.dob,
+    gender: mrz.sex,
+    expiryDate: mrz.expiryDate,
+    nationality: mrz.nationality || undefined,
+  };
+}
+
+function normaliseName(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z\s]/g, ' ').split(/\s+/).filter(Boolean).sort().join(' ');
+}
+
+function normaliseDate(date: string): string {
+  const parts = date.split(/[\/\-\.]/).map(part => parseInt(part));
+  return parts.length === 3 ? parts.join('/') : date;
+}
+
+// Compares the MRZ with what was printed in the visual zone. The MRZ truncates
+// long names, so a visual name only needs to start with the MRZ tokens.
+export function compareMrzWithVisualZone(mrz: MrzResult, visual: DocumentFields): MrzMismatch[] {
+  const mismatches: MrzMismatch[] = [];
+  const fromMrz = mrzToFields(mrz);
+
+  if (fromMrz.name && visual.name) {
+    const mrzName = normaliseName(fromMrz.name);
+    const visualName = normaliseName(visual.name);
+    if (mrzName !== visualName && !visualName.startsWith(mrzName) && !mrzName.startsWith(visualName)) {
+      mismatches.push({ field: 'name', mrz: fromMrz.name, visual: visual.name });
+    }
+  }
+
+  if (fromMrz.dob && visual.dob && normaliseDate(fromMrz.dob) !== normaliseDate(visual.dob)) {
+    mismatches.push({ field: 'dob', mrz: fromMrz.dob, visual: visual.dob });
+  }
+
+  if (fromMrz.documentNumber && visual.documentNumber && fromMrz.documentNumber !== visual.documentNumber.toUpperCase()) {
+    mismatches.push({ field: 'documentNumber', mrz: fromMrz.documentNumber, visual: visual.documentNumber });
+  }
+
+  if (fromMrz.gender && visual.gender && fromMrz.gender !== visual.gender) {
+    mismatches.push({ field: 'gender', mrz: fromMrz.gender, visual: visual.gender });
+  }
+
+  if (fromMrz.expiryDate && visual.expiryDate && normaliseDate(fromMrz.expiryDate) !== normaliseDate(visual.expiryDate)) {
+    mismatches.push({ field: 'expiryDate', mrz: fromMrz.expiryDate, visual: visual.expiryDate });
+  }
+
+  return mismatches;
+}
@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import { TextReader, Uint8ArrayWriter, ZipWriter } from "@zip.js/zip.js";
+import { SignedXml } from "xml-crypto";
+import { OfflineEkycError, OfflineEkycVerifier } from "./offline-ekyc";
+
+// Offline e-KYC archives built here: an XML signed with a throwaway key, zipped
+// with AES-256 as UIDAI does, or with ZipCrypto
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const SHARE_CODE = '4821';
+const PHOTO = Buffer.from('not really a JPEG');
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'offline-ekyc-'));
+
+function signedXml(): string {
+  const xml = '<OfflinePaperlessKyc referenceId="123420240101120000123">'
+    + '<UidData><Poi dob="15-08-1990" gender="F" name="Asha Verma"/>'
+    + '<Poa careof="D/O Ravi Verma" dist="Pune" pc="411038" state="Maharashtra" street="MG Road" vtc="Pune"/>'
+    + `<Pht>${PHOTO.toString('base64')}</Pht></UidData></OfflinePaperlessKyc>`;
+  const signer = new SignedXml({
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    canonicalizationAlgorithm: 'http://www.w3.org/2001/10/xml-exc-c14n#',
+    signatureAlgorithm: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+  });
+  signer.addReference({
+    xpath: '/*',
+    transforms: ['http://www.w3.org/2000/09/xmldsig#enveloped-signature', 'http://www.w3.org/2001/10/xml-exc-c14n#'],
+    digestAlgorithm: 'http://www.w3.org/2001/04/xmlenc#sha256',
+  });
+  signer.computeSignature(xml);
+  return signer.getSignedXml();
+}
+
+async function writeArchive(name: string, options: { zipCrypto?: boolean }, contents = signedXml()): Promise<string> {
+  const writer = new ZipWriter(new Uint8ArrayWriter(), options.zipCrypto
+    ? { password: SHARE_CODE, zipCrypto: true }
+    : { password: SHARE_CODE, encryptionStrength: 3 });
+  await writer.add('offlineaadhaar20240101120000123.xml', new TextReader(contents));
+  const zipPath = path.join(workDir, name);
+  fs.writeFileSync(zipPath, await writer.close());
+  return zipPath;
+}
+
+function verifierWithKey(): OfflineEkycVerifier {
+  const keyPath = path.join(workDir, 'key.pem');
+  fs.writeFileSync(keyPath, publicKey.export({ type: 'spki', format: 'pem' }));
+  return new OfflineEkycVerifier(keyPath);
+}
+
+function rejectsWith(code: string) {
+  return (error: unknown) => error instanceof OfflineEkycError && error.code === code;
+}
+
+test('reads an AES-encrypted archive with the right share code', async () => {
+  const data = await verifierWithKey().read(await writeArchive('aes.zip', {}), SHARE_CODE);
+
+  assert.equal(data.name, 'Asha Verma');
+  assert.equal(data.dob, '15-08-1990');
+  assert.equal(data.aadhaarLastFour, '1234');
+  assert.equal(data.pincode, '411038');
+  assert.deepEqual(data.photo, PHOTO);
+});
+
+test('reads a ZipCrypto archive', async () => {
+  const data = await verifierWithKey().read(await writeArchive('zipcrypto.zip', { zipCrypto: true }), SHARE_CODE);
+  assert.equal(data.name, 'Asha Verma');
+});
+
+test('reports a wrong share code as incorrect', async () => {
+  const verifier = verifierWithKey();
+  await assert.rejects(verifier.read(await writeArchive('wrong-code.zip', {}), '1111'), rejectsWith('ekyc_share_code_incorrect'));
+  await assert.rejects(verifier.read(await writeArchive('wrong-code-zipcrypto.zip', { zipCrypto: true }), '1111'), rejectsWith('ekyc_share_code_incorrect'));
+});
+
+test('reports a damaged archive apart from a wrong share code', async () => {
+  const zipPath = await writeArchive('damaged.zip', {});
+  const bytes = fs.readFileSync(zipPath);
+  // Well past the local header, salt and password check, inside the encrypted data
+  bytes[Math.floor(bytes.length / 2)] ^= 0xff;
+  fs.writeFileSync(zipPath, bytes);
+
+  await assert.rejects(verifierWithKey().read(zipPath, SHARE_CODE), rejectsWith('ekyc_invalid_archive'));
+
+  const notZip = path.join(workDir, 'not-a-zip.zip');
+  fs.writeFileSync(notZip, crypto.randomBytes(2048));
+  await assert.rejects(verifierWithKey().read(notZip, SHARE_CODE), rejectsWith('ekyc_invalid_archive'));
+});
+
+test('rejects an XML changed after signing', async () => {
+  const altered = signedXml().replace('dob="15-08-1990"', 'dob="15-08-1980"');
+  await assert.rejects(verifierWithKey().read(await writeArchive('altered.zip', {}, altered), SHARE_CODE), rejectsWith('ekyc_signature_invalid'));
+});
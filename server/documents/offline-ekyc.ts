@@ -0,0 +1,197 @@
+import fs from "fs";
+import path from "path";
+import { configure, Uint8ArrayReader, Uint8ArrayWriter, ZipReader, type FileEntry } from "@zip.js/zip.js";
+import { DOMParser } from "@xmldom/xmldom";
+import { SignedXml } from "xml-crypto";
+import { formatDate, parseDate } from "./dates";
+import { joinAddress, parseUidaiGender } from "./common";
+import { UidaiCertificate } from "./uidai-certificate";
+import type { DocumentFields } from "./types";
+
+// Aadhaar Paperless Offline e-KYC: a ZIP encrypted with a 4-digit share code the
+// holder chooses when downloading it. Inside is one XML file with the holder's
+// demographics and photo, enveloped-signed by UIDAI (XMLDSig). UIDAI encrypts with
+// AES, which zip.js reads; ZipCrypto archives are read too.
+
+export type OfflineEkycErrorCode =
+  | 'ekyc_share_code_required'
+  | 'ekyc_share_code_incorrect'
+  | 'ekyc_invalid_archive'
+  | 'ekyc_unsupported_archive'
+  | 'ekyc_invalid_xml'
+  | 'ekyc_signature_invalid'
+  | 'ekyc_certificate_missing';
+
+export class OfflineEkycError extends Error {
+  code: OfflineEkycErrorCode;
+
+  constructor(code: OfflineEkycErrorCode, message: string) {
+    super(message);
+    this.name = 'OfflineEkycError';
+    this.code = code;
+  }
+}
+
+export interface OfflineEkycData {
+  referenceId: string; // Last four Aadhaar digits followed by the generation timestamp
+  aadhaarLastFour: string;
+  name: string;
+  dob: string; // As in the XML, DD-MM-YYYY
+  gender: string; // M, F or T
+  careOf: string;
+  house: string;
+  street: string;
+  landmark: string;
+  location: string;
+  vtc: string; // Village, town or city
+  postOffice: string;
+  subDistrict: string;
+  district: string;
+  state: string;
+  pincode: string;
+  photo: Buffer; // JPEG
+}
+
+const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const ROOT_ELEMENT = 'OfflinePaperlessKyc';
+const SHARE_CODE_PATTERN = /^\d{4}$/;
+
+// The XML is a few tens of kilobytes; anything far larger is not an e-KYC download
+const MAX_XML_BYTES = 1024 * 1024;
+
+// Archives are small and read in-process; zip.js would otherwise look for web workers
+configure({ useWebWorkers: false });
+
+// zip.js reports problems by message, matching its exported ERR_* constants
+const WRONG_PASSWORD_ERRORS = ['Invalid password'];
+const UNSUPPORTED_ERRORS = ['Encryption method not supported', 'Compression method not supported', 'Split zip file'];
+
+// A wrong share code, an archive this server cannot decrypt or decompress, and a
+// damaged archive (bad CRC or authentication code) are reported separately
+function archiveError(error: unknown): OfflineEkycError {
+  const message = error instanceof Error ? error.message : '';
+  if (WRONG_PASSWORD_ERRORS.includes(message)) {
+    return new OfflineEkycError('ekyc_share_code_incorrect', 'The share code is incorrect. Use the 4-digit code you chose when downloading the ZIP.');
+  }
+  if (UNSUPPORTED_ERRORS.includes(message)) {
+    return new OfflineEkycError('ekyc_unsupported_archive', 'The ZIP uses a format this server cannot read. Download the Offline e-KYC file again from the UIDAI website.');
+  }
+  return new OfflineEkycError('ekyc_invalid_archive', 'The Offline e-KYC ZIP is damaged. Download it again from the UIDAI website.');
+}
+
+async function extractXml(zipPath: string, shareCode: string): Promise<string> {
+  const reader = new ZipReader(new Uint8ArrayReader(new Uint8Array(fs.readFileSync(zipPath))));
+  try {
+    let entries: FileEntry[];
+    try {
+      entries = (await reader.getEntries()).filter((entry): entry is FileEntry => !entry.directory && entry.filename.toLowerCase().endsWith('.xml'));
+    } catch (error) {
+      throw new OfflineEkycError('ekyc_invalid_archive', 'The file is not a valid Offline e-KYC ZIP.');
+    }
+
+    if (entries.length !== 1 || entries[0].uncompressedSize > MAX_XML_BYTES) {
+      throw new OfflineEkycError('ekyc_invalid_archive', 'The ZIP does not contain an Offline e-KYC XML file.');
+    }
+
+    try {
+      const contents = await entries[0].getData(new Uint8ArrayWriter(), { password: shareCode, checkSignature: true });
+      return Buffer.from(contents).toString('utf8');
+    } catch (error) {
+      throw archiveError(error);
+    }
+  } finally {
+    await reader.close();
+  }
+}
+
+function attribute(element: Element | undefined, name: string): string {
+  return element?.getAttribute(name)?.trim() || '';
+}
+
+// Verifies the XML signature and reads values from the signed content only, so
+// nothing added outside the signature can leak into the result
+export class OfflineEkycVerifier extends UidaiCertificate {
+  async read(zipPath: string, shareCode: string): Promise<OfflineEkycData> {
+    if (!shareCode) {
+      throw new OfflineEkycError('ekyc_share_code_required', 'Enter the share code for the Offline e-KYC ZIP.');
+    }
+    if (!SHARE_CODE_PATTERN.test(shareCode)) {
+      throw new OfflineEkycError('ekyc_share_code_incorrect', 'The share code is the 4-digit code you chose when downloading the ZIP.');
+    }
+
+    const publicKey = this.load();
+    if (!publicKey) {
+      throw new OfflineEkycError('ekyc_certificate_missing', 'Offline e-KYC verification is not configured on this server.');
+    }
+
+    const xml = await extractXml(zipPath, shareCode);
+    const parseXml = (text: string) => new DOMParser({ errorHandler: () => undefined }).parseFromString(text, 'text/xml');
+    const signatureNode = parseXml(xml).getElementsByTagNameNS(XMLDSIG_NS, 'Signature')[0];
+    if (!signatureNode) {
+      throw new OfflineEkycError('ekyc_signature_invalid', 'The Offline e-KYC XML is not signed.');
+    }
+
+    const signed = new SignedXml({ publicCert: publicKey });
+    let valid: boolean;
+    try {
+      signed.loadSignature(signatureNode as unknown as Node);
+      valid = signed.checkSignature(xml);
+    } catch (error) {
+      valid = false;
+    }
+    const signedXml = signed.getSignedReferences();
+    if (!valid || signedXml.length !== 1) {
+      throw new OfflineEkycError('ekyc_signature_invalid', 'The Offline e-KYC signature is not valid. The file may have been altered.');
+    }
+
+    const root = parseXml(signedXml[0]).documentElement;
+    if (!root || root.localName !== ROOT_ELEMENT) {
+      throw new OfflineEkycError('ekyc_invalid_xml', 'The signed XML is not an Offline e-KYC document.');
+    }
+
+    const poi = root.getElementsByTagName('Poi')[0] as Element | undefined;
+    const poa = root.getElementsByTagName('Poa')[0] as Element | undefined;
+    const photo = root.getElementsByTagName('Pht')[0]?.textContent?.replace(/\s+/g, '') || '';
+    const referenceId = attribute(root as unknown as Element, 'referenceId');
+    if (!poi || !photo || !/^\d{4}/.test(referenceId)) {
+      throw new OfflineEkycError('ekyc_invalid_xml', 'The Offline e-KYC XML is missing the holder\'s details.');
+    }
+
+    return {
+      referenceId,
+      aadhaarLastFour: referenceId.slice(0, 4),
+      name: attribute(poi, 'name'),
+      dob: attribute(poi, 'dob'),
+      gender: attribute(poi, 'gender'),
+      careOf: attribute(poa, 'careof'),
+      house: attribute(poa, 'house'),
+      street: attribute(poa, 'street'),
+      landmark: attribute(poa, 'landmark'),
+      location: attribute(poa, 'loc'),
+      vtc: attribute(poa, 'vtc'),
+      postOffice: attribute(poa, 'po'),
+      subDistrict: attribute(poa, 'subdist'),
+      district: attribute(poa, 'dist'),
+      state: attribute(poa, 'state'),
+      pincode: attribute(poa, 'pc'),
+      photo: Buffer.from(photo, 'base64'),
+    };
+  }
+}
+
+export function offlineEkycToFields(data: OfflineEkycData): DocumentFields {
+  const dob = parseDate(data.dob, 'aadhaar');
+  return {
+    name: data.name || undefined,
+    dob: dob ? formatDate(dob) : undefined,
+    gender: parseUidaiGender(data.gender),
+    address: joinAddress([
+      data.careOf, data.house, data.street, data.landmark, data.location, data.vtc,
+      data.postOffice, data.subDistrict, data.district, data.state, data.pincode,
+    ]),
+  };
+}
+
+export const offlineEkycVerifier = new OfflineEkycVerifier(
+  process.env.AADHAAR_EKYC_CERT || path.resolve(process.cwd(), 'certs', 'uidai-offline-ekyc.cer'),
+);
@@ -0,0 +1,32 @@
+import { extractLabelledValue, cleanName } from "./common";
+import { extractBirthDate } from "./dates";
+import type { DocumentParser, DocumentFields } from "./types";
+
+// AAAPL1234C: the fourth letter encodes the holder type (P = person, C = company, ...)
+const PAN_PATTERN = /\b([A-Z]{3}[PCHFATBLJG][A-Z]\d{4}[A-Z])\b/;
+
+export function extractPanNumber(text: string): string | undefined {
+  return text.match(PAN_PATTERN)?.[1];
+}
+
+export const panParser: DocumentParser = {
+  type: 'pan',
+  label: 'PAN Card',
+  sides: ['front'],
+  recognisers: [
+    /INCOME\s*TAX\s*DEPARTMENT/i,
+    /आयकर\s*विभाग/,
+    /Permanent\s*Account\s*Number/i,
+    /स्थायी\s*लेखा\s*संख्या/,
+    /GOVT\.?\s*OF\s*INDIA/i,
+  ],
+  extractDocumentNumber: extractPanNumber,
+  extractFields(text: string, lines: string[], asOf: Date): DocumentFields {
+    return {
+      documentNumber: extractPanNumber(text),
+      name: cleanName(extractLabelledValue(lines, /^(?:Name|नाम)(?!.*Father)/i)),
+      fatherName: cleanName(extractLabelledValue(lines, /Father'?s\s*Name|पिता\s*का\s*नाम/i)),
+      dob: extractBirthDate(lines, 'pan', asOf),
+    };
+  },
+};
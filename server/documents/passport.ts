@@ -0,0 +1,52 @@
+import { extractGender, extractLabelledValue, cleanName } from "./common";
+import { extractBirthDate, extractLabelledDate } from "./dates";
+import type { DocumentParser, DocumentFields, Gender } from "./types";
+
+// Indian passport numbers: one letter followed by seven digits (e.g. K1234567)
+const PASSPORT_NUMBER_PATTERN = /\b([A-Z][0-9]{7})\b/;
+
+export function extractPassportNumber(text: string): string | undefined {
+  const labelled = text.match(/Passport\s*No\.?\s*[:\-]?\s*([A-Z][0-9]{7})/i);
+  return labelled?.[1].toUpperCase() ?? text.match(PASSPORT_NUMBER_PATTERN)?.[1];
+}
+
+function extractPassportName(lines: string[]): string | undefined {
+  const surname = cleanName(extractLabelledValue(lines, /^Surname\b|उपनाम/i));
+  const givenNames = cleanName(extractLabelledValue(lines, /Given\s*Name\(?s?\)?|दिया\s*गया\s*नाम/i));
+  const name = [givenNames, surname].filter(Boolean).join(' ');
+  return name.length > 0 ? name : undefined;
+}
+
+// The visual zone prints sex as a single letter rather than a word
+function extractPassportGender(text: string): Gender | undefined {
+  const sex = text.match(/\bSex\s*[:\/]?\s*([MFX])\b/i)?.[1].toUpperCase();
+  if (sex === 'M') return 'male';
+  if (sex === 'F') return 'female';
+  if (sex === 'X') return 'transgender';
+  return extractGender(text);
+}
+
+export const passportParser: DocumentParser = {
+  type: 'passport',
+  label: 'Passport',
+  sides: ['front'],
+  recognisers: [
+    /\bPASSPORT\b/i,
+    /पासपोर्ट/,
+    /REPUBLIC\s*OF\s*INDIA/i,
+    /भारत\s*गणराज्य/,
+    /Place\s*of\s*Issue/i,
+    /Given\s*Name/i,
+    /^P<[A-Z<]{3}/m,
+  ],
+  extractDocumentNumber: extractPassportNumber,
+  extractFields(text: string, lines: string[], asOf: Date): DocumentFields {
+    return {
+      documentNumber: extractPassportNumber(text),
+      name: extractPassportName(lines),
+      dob: extractBirthDate(lines, 'passport', asOf),
+      gender: extractPassportGender(text),
+      expiryDate: extractLabelledDate(lines, 'expiry', 'passport'),
+    };
+  },
+};
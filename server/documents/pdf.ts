@@ -0,0 +1,93 @@
+import fs from "fs";
+import * as mupdf from "mupdf";
+
+// Rasterises uploaded PDFs (including password-protected e-Aadhaar downloads)
+// into PNG page images that the OCR and face pipeline can consume.
+
+export type PdfErrorCode = 'pdf_password_required' | 'pdf_password_incorrect' | 'pdf_invalid';
+
+export class PdfProcessingError extends Error {
+  code: PdfErrorCode;
+
+  constructor(code: PdfErrorCode, message: string) {
+    super(message);
+    this.name = 'PdfProcessingError';
+    this.code = code;
+  }
+}
+
+export interface RasteriseOptions {
+  password?: string;
+  // ID documents are one or two pages; anything beyond is ignored
+  maxPages?: number;
+  dpi?: number;
+}
+
+const DEFAULT_MAX_PAGES = 2;
+const DEFAULT_DPI = 200;
+const PDF_MAGIC = '%PDF-';
+
+export function isPdfFile(filePath: string): boolean {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const header = Buffer.alloc(PDF_MAGIC.length);
+    fs.readSync(fd, header, 0, header.length, 0);
+    return header.toString('latin1') === PDF_MAGIC;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Returns the paths of the rendered page images, written next to the PDF. The
+// caller deletes them; if rendering fails, the pages already written are removed.
+export function rasterisePdf(pdfPath: string, options: RasteriseOptions = {}): string[] {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const scale = (options.dpi ?? DEFAULT_DPI) / 72;
+
+  if (!isPdfFile(pdfPath)) {
+    throw new PdfProcessingError('pdf_invalid', 'The uploaded file is not a valid PDF.');
+  }
+
+  let document: mupdf.Document;
+  try {
+    document = mupdf.Document.openDocument(fs.readFileSync(pdfPath), 'application/pdf');
+  } catch (error) {
+    throw new PdfProcessingError('pdf_invalid', 'The uploaded PDF could not be opened.');
+  }
+
+  try {
+    if (document.needsPassword()) {
+      if (!options.password) {
+        throw new PdfProcessingError('pdf_password_required', 'This PDF is password protected. Please enter its password.');
+      }
+      // authenticatePassword returns 0 when the password is wrong
+      if (document.authenticatePassword(options.password) === 0) {
+        throw new PdfProcessingError('pdf_password_incorrect', 'The PDF password is incorrect.');
+      }
+    }
+
+    const pageCount = Math.min(document.countPages(), maxPages);
+    if (pageCount === 0) {
+      throw new PdfProcessingError('pdf_invalid', 'The uploaded PDF has no pages.');
+    }
+
+    const pagePaths: string[] = [];
+    try {
+      for (let i = 0; i < pageCount; i++) {
+        const page = document.loadPage(i);
+        const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceRGB, false, true);
+        const pagePath = `${pdfPath}_page${i + 1}.png`;
+        fs.writeFileSync(pagePath, pixmap.asPNG());
+        pagePaths.push(pagePath);
+        pixmap.destroy();
+        page.destroy();
+      }
+    } catch (error) {
+      pagePaths.forEach(pagePath => fs.rmSync(pagePath, { force: true }));
+      throw error;
+    }
+    return pagePaths;
+  } finally {
+    document.destroy();
+  }
+}
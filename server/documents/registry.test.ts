@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { classifyDocument, getDocumentSides, parseDocument } from "./registry";
+
+// OCR text as it comes off the page: one line per printed line, numbers with spaces
+
+const AS_OF = new Date(2024, 0, 1, 12);
+
+const AADHAAR_FRONT = [
+  'Government of India',
+  'Name: Asha Verma',
+  'DOB: 15/08/1990',
+  'Female',
+  '2345 6789 0124',
+].join('\n');
+
+const PAN = [
+  'INCOME TAX DEPARTMENT',
+  'GOVT. OF INDIA',
+  'Permanent Account Number',
+  'ABCPE1234F',
+].join('\n');
+
+// The ICAO Doc 9303 specimen, with a visual zone that has the birth date wrong
+const PASSPORT = [
+  'PASSPORT',
+  'Date of Birth: 21/08/1974',
+  'P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<',
+  'L898902C36UTO7408122F1204159ZE184226B<<<<<10',
+].join('\n');
+
+test('classifies documents by their headers and document numbers', () => {
+  assert.equal(classifyDocument(AADHAAR_FRONT).documentType, 'aadhaar');
+  assert.equal(classifyDocument(PAN).documentType, 'pan');
+  assert.equal(classifyDocument('DRIVING LICENCE\nDL No: MH12 2015 0012345').documentType, 'driving_licence');
+  assert.equal(classifyDocument('ELECTION COMMISSION OF INDIA\nABC1234567').documentType, 'voter_id');
+});
+
+test('scores a valid document number above any single header', () => {
+  // One passport header against a PAN number
+  const result = classifyDocument('PASSPORT\nABCPE1234F');
+  assert.equal(result.documentType, 'pan');
+  assert.equal(result.score, 2);
+
+  assert.equal(classifyDocument(AADHAAR_FRONT).score, 1 + 2);
+});
+
+test('gives ties to the parser registered first', () => {
+  // One Aadhaar header and one PAN header
+  assert.equal(classifyDocument('Aadhaar\nGOVT OF INDIA').documentType, 'aadhaar');
+});
+
+test('leaves text it does not recognise unknown', () => {
+  assert.deepEqual(classifyDocument('Library card\nMember since 2019'), { documentType: 'unknown', score: 0 });
+});
+
+test('extracts the fields of the classified document', () => {
+  const parsed = parseDocument(AADHAAR_FRONT, AS_OF);
+
+  assert.equal(parsed.documentType, 'aadhaar');
+  assert.equal(parsed.fields.aadhaarNumber, '234567890124');
+  assert.equal(parsed.fields.dob, '15/08/1990');
+  assert.equal(parsed.fields.gender, 'female');
+  assert.equal(parseDocument(PAN, AS_OF).fields.documentNumber, 'ABCPE1234F');
+});
+
+test('converts native-script digits before parsing', () => {
+  const devanagari = AADHAAR_FRONT.replace('2345 6789 0124', '२३४५ ६७८९ ०१२४');
+  assert.equal(parseDocument(devanagari, AS_OF).fields.aadhaarNumber, '234567890124');
+});
+
+test('falls back to the expected type when the text alone does not say', () => {
+  const back = 'S/O Ravi Verma\n12 MG Road\nPune 411038';
+
+  assert.equal(parseDocument(back, AS_OF).documentType, 'unknown');
+  assert.equal(parseDocument(back, AS_OF, 'aadhaar').documentType, 'aadhaar');
+  // Recognisable text wins over the expectation
+  assert.equal(parseDocument(PAN, AS_OF, 'aadhaar').documentType, 'pan');
+});
+
+test('prefers a valid MRZ over the visual zone and reports where they differ', () => {
+  const parsed = parseDocument(PASSPORT, new Date(2010, 0, 1, 12));
+
+  assert.equal(parsed.documentType, 'passport');
+  assert.equal(parsed.mrz?.valid, true);
+  assert.equal(parsed.fields.dob, '12/08/1974');
+  assert.equal(parsed.fields.documentNumber, 'L898902C3');
+  assert.deepEqual(parsed.mrzMismatches.map(mismatch => mismatch.field), ['dob']);
+});
+
+test('types a document identified only by a TD1 zone as an ID card', () => {
+  const td1 = [
+    'I<UTOD231458907<<<<<<<<<<<<<<<',
+    '7408122F1204159UTO<<<<<<<<<<<6',
+    'ERIKSSON<<ANNA<MARIA<<<<<<<<<<',
+  ].join('\n');
+  assert.equal(parseDocument(td1, new Date(2010, 0, 1, 12)).documentType, 'id_card');
+});
+
+test('lists the printed sides of each document type', () => {
+  assert.deepEqual(getDocumentSides('aadhaar'), ['front', 'back']);
+  assert.deepEqual(getDocumentSides('pan'), ['front']);
+  // No parser: single-sided
+  assert.deepEqual(getDocumentSides('id_card'), ['front']);
+});
@@ -0,0 +1,92 @@
+import { aadhaarParser } from "./aadhaar";
+import { panParser } from "./pan";
+import { passportParser } from "./passport";
+import { drivingLicenceParser } from "./driving-licence";
+import { voterIdParser } from "./voter-id";
+import { splitLines } from "./common";
+import { normaliseDigits } from "./dates";
+import { parseMrz, mrzToFields, compareMrzWithVisualZone, type MrzMismatch } from "./mrz";
+import type { DocumentFields, DocumentParser, DocumentSide, DocumentType, ParsedDocument } from "./types";
+
+// A recognised document number outweighs any single header match
+const DOCUMENT_NUMBER_WEIGHT = 2;
+
+const parsers = new Map<DocumentType, DocumentParser>();
+
+export function registerDocumentParser(parser: DocumentParser): void {
+  parsers.set(parser.type, parser);
+}
+
+export function getDocumentParser(type: DocumentType): DocumentParser | undefined {
+  return parsers.get(type);
+}
+
+export function getDocumentParsers(): DocumentParser[] {
+  return Array.from(parsers.values());
+}
+
+// Documents without a parser are treated as single-sided
+export function getDocumentSides(type: DocumentType): DocumentSide[] {
+  return parsers.get(type)?.sides || ['front'];
+}
+
+function scoreParser(parser: DocumentParser, text: string): number {
+  const recognised = parser.recognisers.filter(pattern => pattern.test(text)).length;
+  return recognised + (parser.extractDocumentNumber(text) ? DOCUMENT_NUMBER_WEIGHT : 0);
+}
+
+// Picks the parser with the highest score; ties go to the parser registered first
+export function classifyDocument(text: string): { documentType: DocumentType; score: number } {
+  let best: { documentType: DocumentType; score: number } = { documentType: 'unknown', score: 0 };
+
+  parsers.forEach((parser) => {
+    const score = scoreParser(parser, text);
+    if (score > best.score) {
+      best = { documentType: parser.type, score };
+    }
+  });
+
+  return best;
+}
+
+// When a machine-readable zone with valid check digits is present, its fields
+// take precedence over the visual zone and any disagreement is reported.
+// Native-script digits are converted first so every parser sees ASCII numbers.
+// expectedType (e.g. the type found on the front) is used when the text alone
+// does not identify the document, as on a sparse back side.
+export function parseDocument(rawText: string, asOf: Date, expectedType: DocumentType = 'unknown'): ParsedDocument {
+  const text = normaliseDigits(rawText);
+  const classification = classifyDocument(text);
+  const mrz = parseMrz(text, asOf);
+
+  let documentType = classification.documentType === 'unknown' ? expectedType : classification.documentType;
+  if (mrz && documentType === 'unknown') {
+    documentType = mrz.format === 'TD3' ? 'passport' : 'id_card';
+  }
+
+  const parser = parsers.get(documentType);
+  let fields: DocumentFields = parser ? parser.extractFields(text, splitLines(text), asOf) : {};
+  let mrzMismatches: MrzMismatch[] = [];
+
+  if (mrz?.valid) {
+    mrzMismatches = compareMrzWithVisualZone(mrz, fields);
+    const mrzFields = Object.fromEntries(
+      Object.entries(mrzToFields(mrz)).filter(([, value]) => value !== undefined),
+    );
+    fields = { ...fields, ...mrzFields };
+  }
+
+  return {
+    documentType,
+    classificationScore: classification.score,
+    fields,
+    mrz,
+    mrzMismatches,
+  };
+}
+
+registerDocumentParser(aadhaarParser);
+registerDocumentParser(panParser);
+registerDocumentParser(passportParser);
+registerDocumentParser(drivingLicenceParser);
+registerDocumentParser(voterIdParser);
@@ -0,0 +1,45 @@
+import type { MrzMismatch, MrzResult } from "./mrz";
+
+// 'id_card' has no dedicated parser; it is assigned when only a TD1 MRZ identifies the document
+export type DocumentType = 'aadhaar' | 'pan' | 'passport' | 'driving_licence' | 'voter_id' | 'id_card' | 'unknown';
+
+export type Gender = 'male' | 'female' | 'transgender';
+
+export type DocumentSide = 'front' | 'back';
+
+// Fields a parser may pull out of a document. Every field is optional because
+// OCR rarely recovers all of them from a single image.
+export interface DocumentFields {
+  documentNumber?: string;
+  name?: string;
+  dob?: string;
+  gender?: Gender;
+  fatherName?: string;
+  address?: string;
+  aadhaarNumber?: string;
+  yearOfBirth?: number;
+  expiryDate?: string;
+  nationality?: string;
+}
+
+export interface DocumentParser {
+  type: DocumentType;
+  label: string;
+  // Printed sides that carry data, in capture order
+  sides: DocumentSide[];
+  // Header text and labels that identify this document; each match adds to the classification score
+  recognisers: RegExp[];
+  // Validates a candidate document number; a valid number counts more than any single recogniser
+  extractDocumentNumber(text: string): string | undefined;
+  // asOf bounds plausible birth dates
+  extractFields(text: string, lines: string[], asOf: Date): DocumentFields;
+}
+
+export interface ParsedDocument {
+  documentType: DocumentType;
+  classificationScore: number;
+  fields: DocumentFields;
+  mrz?: MrzResult;
+  // Differences between the MRZ and the printed visual zone, a sign of tampering
+  mrzMismatches: MrzMismatch[];
+}
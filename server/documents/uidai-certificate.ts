@@ -0,0 +1,51 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+// A UIDAI signing certificate read from disk once. Either an X.509 certificate or
+// a bare public key (PEM or DER) is accepted so test keys can be used locally.
+
+export class UidaiCertificateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UidaiCertificateError';
+  }
+}
+
+export class UidaiCertificate {
+  private certificatePath: string;
+  private publicKey: crypto.KeyObject | null | undefined;
+
+  constructor(certificatePath: string) {
+    this.certificatePath = path.resolve(certificatePath);
+    this.publicKey = undefined;
+  }
+
+  getCertificatePath(): string {
+    return this.certificatePath;
+  }
+
+  // Returns null when no certificate is configured; an unreadable file is an error
+  load(): crypto.KeyObject | null {
+    if (this.publicKey !== undefined) return this.publicKey;
+
+    if (!fs.existsSync(this.certificatePath)) {
+      this.publicKey = null;
+      return null;
+    }
+
+    const contents = fs.readFileSync(this.certificatePath);
+    try {
+      this.publicKey = new crypto.X509Certificate(contents).publicKey;
+    } catch (error) {
+      try {
+        this.publicKey = crypto.createPublicKey(contents.toString('latin1').includes('-----BEGIN')
+          ? contents
+          : { key: contents, format: 'der', type: 'spki' });
+      } catch (keyError) {
+        throw new UidaiCertificateError(`${this.certificatePath} is not a certificate or public key`);
+      }
+    }
+    return this.publicKey;
+  }
+}
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { verhoeffGenerate, verhoeffValidate } from "./verhoeff";
+import { extractAadhaarNumber } from "./aadhaar";
+
+test('computes and validates Verhoeff check digits', () => {
+  // The worked example from Verhoeff's scheme: 236 takes check digit 3
+  assert.equal(verhoeffGenerate('236'), 3);
+  assert.equal(verhoeffValidate('2363'), true);
+  assert.equal(verhoeffValidate('2364'), false);
+});
+
+test('catches single-digit errors and adjacent transpositions', () => {
+  const number = '234567890124';
+  assert.equal(verhoeffValidate(number), true);
+  assert.equal(verhoeffValidate('234567890125'), false);
+  assert.equal(verhoeffValidate('234567809124'), false); // 9 and 0 swapped
+  assert.equal(verhoeffValidate('2345 6789 0124'), false); // Digits only
+});
+
+test('extracts the first Aadhaar number with a valid check digit', () => {
+  assert.equal(extractAadhaarNumber('Aadhaar No: 2345 6789 0124'), '234567890124');
+  // A misread number is skipped for the valid one after it
+  assert.equal(extractAadhaarNumber('2345 6789 0125 Aadhaar 9876 5432 1096'), '987654321096');
+  // Numbers starting with 0 or 1 are not Aadhaar numbers
+  assert.equal(extractAadhaarNumber('1234 5678 9012'), undefined);
+});
+
+test('does not take the start of a 16-digit VID as an Aadhaar number', () => {
+  assert.equal(extractAadhaarNumber('VID : 2345 6789 0124 5678'), undefined);
+});
@@ -0,0 +1,49 @@
+// Verhoeff checksum (dihedral group D5), used by UIDAI for the last digit of an Aadhaar number
+
+const MULTIPLICATION = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const PERMUTATION = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+const INVERSE = [0, 4, 3, 2, 1, 5, 6, 7, 8, 9];
+
+// Returns true when the trailing digit of `digits` is a valid Verhoeff check digit
+export function verhoeffValidate(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false;
+
+  let check = 0;
+  const reversed = digits.split('').reverse();
+  for (let i = 0; i < reversed.length; i++) {
+    check = MULTIPLICATION[check][PERMUTATION[i % 8][parseInt(reversed[i])]];
+  }
+  return check === 0;
+}
+
+// Computes the Verhoeff check digit to append to `digits`
+export function verhoeffGenerate(digits: string): number {
+  let check = 0;
+  const reversed = digits.split('').reverse();
+  for (let i = 0; i < reversed.length; i++) {
+    check = MULTIPLICATION[check][PERMUTATION[(i + 1) % 8][parseInt(reversed[i])]];
+  }
+  return INVERSE[check];
+}
@@ -0,0 +1,33 @@
+import { extractGender, extractLabelledValue, cleanName } from "./common";
+import { extractBirthDate } from "./dates";
+import type { DocumentParser, DocumentFields } from "./types";
+
+// EPIC numbers are three letters followed by seven digits, e.g. "ABC1234567"
+const EPIC_PATTERN = /\b([A-Z]{3}[0-9]{7})\b/;
+
+export function extractEpicNumber(text: string): string | undefined {
+  return text.match(EPIC_PATTERN)?.[1];
+}
+
+export const voterIdParser: DocumentParser = {
+  type: 'voter_id',
+  label: 'Voter ID (EPIC)',
+  sides: ['front', 'back'],
+  recognisers: [
+    /ELECTION\s*COMMISSION\s*OF\s*INDIA/i,
+    /भारत\s*निर्वाचन\s*आयोग/,
+    /ELECTOR'?S?\s*PHOTO\s*IDENTITY\s*CARD/i,
+    /मतदाता\s*फोटो\s*पहचान\s*पत्र/,
+    /Elector'?s\s*Name/i,
+  ],
+  extractDocumentNumber: extractEpicNumber,
+  extractFields(text: string, lines: string[], asOf: Date): DocumentFields {
+    return {
+      documentNumber: extractEpicNumber(text),
+      name: cleanName(extractLabelledValue(lines, /Elector'?s\s*Name|^Name\b/i)),
+      fatherName: cleanName(extractLabelledValue(lines, /(?:Father|Husband)'?s\s*Name/i)),
+      gender: extractGender(text),
+      dob: extractBirthDate(lines, 'voter_id', asOf),
+    };
+  },
+};
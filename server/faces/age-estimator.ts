@@ -0,0 +1,77 @@
+import { faceAnalyzer, type FaceBox } from "./face-analyzer";
+
+// Apparent age of the largest face in a photo, as a point estimate with heuristic
+// bounds around it. The bounds have not been calibrated against labelled ages, so
+// they say how far to trust the estimate, not how often the true age falls inside.
+// Age policies therefore send face-only decisions near the minimum to review.
+
+export interface AgeEstimate {
+  age: number | null; // Years, 0-90; null when no face was found
+  low: number | null;
+  high: number | null;
+  confidence: number;
+  box: FaceBox | null;
+  feedback: string[];
+}
+
+const MIN_AGE = 0;
+const MAX_AGE = 90;
+
+// The model's error grows with age: a few years for children, over a decade for
+// older adults. Half-width of the interval = BASE + SLOPE * estimate, both picked
+// by hand to follow that trend.
+const INTERVAL_BASE = 4;
+const INTERVAL_SLOPE = 0.2;
+
+// Weak detections and small faces give less reliable ages; their interval is widened
+const WIDEN_FACTOR = 1.25;
+const MIN_DETECTION_SCORE = 0.8;
+const MIN_FACE_WIDTH = 80;
+
+function clampAge(age: number): number {
+  return Math.max(MIN_AGE, Math.min(MAX_AGE, age));
+}
+
+export async function estimateAge(imagePath: string): Promise<AgeEstimate> {
+  const analysis = await faceAnalyzer.detectFaces(imagePath);
+  const face = analysis.faces[0];
+  if (!face) {
+    return {
+      age: null,
+      low: null,
+      high: null,
+      confidence: 0,
+      box: null,
+      feedback: ['No face was found in your selfie, so your age could not be estimated.'],
+    };
+  }
+
+  const age = clampAge(face.age);
+  let halfWidth = INTERVAL_BASE + INTERVAL_SLOPE * age;
+  let confidence = face.box.score * 100;
+  const feedback: string[] = [];
+
+  if (face.box.score < MIN_DETECTION_SCORE) {
+    halfWidth *= WIDEN_FACTOR;
+    confidence -= 10;
+  }
+  if (face.box.width < MIN_FACE_WIDTH) {
+    halfWidth *= WIDEN_FACTOR;
+    confidence -= 15;
+    feedback.push('Your face is small in the selfie, which makes the age estimate less precise. Move closer to the camera.');
+  }
+  if (analysis.faces.length > 1) {
+    confidence -= 25;
+    feedback.push('More than one face is visible in your selfie; the age was estimated for the largest.');
+  }
+
+  return {
+    age: Math.round(age),
+    // Rounded outwards so the interval never gets narrower
+    low: Math.floor(clampAge(age - halfWidth)),
+    high: Math.ceil(clampAge(age + halfWidth)),
+    confidence: Math.round(Math.max(0, Math.min(100, confidence))),
+    box: face.box,
+    feedback,
+  };
+}
@@ -0,0 +1,220 @@
+import path from "path";
+import sharp from "sharp";
+import * as tf from "@tensorflow/tfjs";
+import { setWasmPaths } from "@tensorflow/tfjs-backend-wasm";
+import * as faceapi from "@vladmandic/face-api/dist/face-api.node-wasm.js";
+import type { FacePoint } from "@shared/face-geometry";
+
+// Face detection, landmark alignment, embeddings, age and expressions on the CPU,
+// using the models bundled with @vladmandic/face-api: an SSD MobileNet v1 detector
+// (with the much faster Tiny Face Detector for video frames), a 68-point landmark
+// model used to align each face, a ResNet-34 network that maps the aligned face
+// to a 128-dimensional descriptor, an age and gender regressor, and an expression
+// classifier. TensorFlow.js runs them on its WebAssembly backend, so no native
+// libraries or GPU are needed. Models are loaded once at startup.
+
+export interface FaceBox {
+  // Pixels in the analysed image, origin at the top left
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Detector confidence, 0-1
+  score: number;
+}
+
+export interface DetectedFace {
+  box: FaceBox;
+  // The 68 landmarks in the iBUG 300-W order, in image pixels
+  landmarks: FacePoint[];
+  descriptor: Float32Array;
+  age: number; // Apparent age in years from the age model
+}
+
+// One video frame: landmarks and expression of the largest face, for liveness checks
+export interface FrameAnalysis {
+  faceCount: number;
+  box: FaceBox;
+  // The 68 landmarks in the iBUG 300-W order, in frame pixels
+  landmarks: FacePoint[];
+  happy: number; // Probability of a smile, 0-1
+}
+
+export interface FaceAnalysis {
+  width: number;
+  height: number;
+  // Largest first
+  faces: DetectedFace[];
+}
+
+export interface FaceAnalyzerConfig {
+  modelDirectory: string;
+  minDetectionScore: number;
+  // Larger images are scaled down for detection; boxes are reported at full size
+  maxImageSide: number;
+}
+
+export class FaceModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FaceModelError';
+  }
+}
+
+const MODELS = ['ssd_mobilenetv1', 'tiny_face_detector', 'face_landmark_68', 'face_recognition', 'age_gender', 'face_expression'];
+
+// Input size of the tiny detector for video frames; a multiple of 32
+const FRAME_DETECTOR_SIZE = 320;
+// Input size of the tiny detector when counting faces in a still image
+const COUNT_DETECTOR_SIZE = 416;
+
+const DEFAULT_CONFIG: FaceAnalyzerConfig = {
+  modelDirectory: process.env.FACE_MODEL_DIR || path.resolve(process.cwd(), 'node_modules', '@vladmandic', 'face-api', 'model'),
+  minDetectionScore: parseFloat(process.env.FACE_MIN_DETECTION_SCORE || '0.5'),
+  maxImageSide: 1280,
+};
+
+export class FaceAnalyzer {
+  private config: FaceAnalyzerConfig;
+  private starting: Promise<void> | null;
+
+  constructor(config: FaceAnalyzerConfig = DEFAULT_CONFIG) {
+    this.config = config;
+    this.starting = null;
+  }
+
+  // Safe to call more than once; later calls wait for the first load
+  start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = this.load().catch(error => {
+        this.starting = null;
+        throw new FaceModelError(`Face models could not be loaded from ${this.config.modelDirectory}: ${error.message}`);
+      });
+    }
+    return this.starting;
+  }
+
+  // Served to the browser for live capture guidance
+  getModelDirectory(): string {
+    return this.config.modelDirectory;
+  }
+
+  // Recorded with every comparison so a score can be traced to the models that produced it
+  getModelVersion(): string {
+    return `face-api ${faceapi.version}; ${MODELS.join(', ')}`;
+  }
+
+  async detectFaces(image: string | Buffer): Promise<FaceAnalysis> {
+    await this.start();
+
+    const { data, info } = await sharp(image)
+      .rotate()
+      .resize(this.config.maxImageSide, this.config.maxImageSide, { fit: 'inside', withoutEnlargement: true })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    // EXIF orientations 5-8 swap the stored width and height
+    const meta = await sharp(image).metadata();
+    const swapped = (meta.orientation || 1) >= 5;
+    const originalWidth = (swapped ? meta.height : meta.width) || info.width;
+    const originalHeight = (swapped ? meta.width : meta.height) || info.height;
+    const scale = originalWidth / info.width;
+
+    const tensor = tf.tensor3d(data, [info.height, info.width, 3], 'int32');
+    try {
+      const results = await faceapi
+        .detectAllFaces(tensor as unknown as faceapi.TNetInput, new faceapi.SsdMobilenetv1Options({ minConfidence: this.config.minDetectionScore }))
+        .withFaceLandmarks()
+        .withAgeAndGender()
+        .withFaceDescriptors();
+
+      const faces = results.map(result => ({
+        box: {
+          x: Math.round(result.detection.box.x * scale),
+          y: Math.round(result.detection.box.y * scale),
+          width: Math.round(result.detection.box.width * scale),
+          height: Math.round(result.detection.box.height * scale),
+          score: Math.round(result.detection.score * 1000) / 1000,
+        },
+        landmarks: result.landmarks.positions.map(point => ({ x: point.x * scale, y: point.y * scale })),
+        descriptor: result.descriptor,
+        age: result.age,
+      }));
+      faces.sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height);
+
+      return { width: originalWidth, height: originalHeight, faces };
+    } finally {
+      tensor.dispose();
+    }
+  }
+
+  // A second opinion on how many faces an image shows. The SSD detector pads wide
+  // images to a square and misses several small faces side by side; the tiny
+  // detector does not.
+  async countFaces(image: string | Buffer): Promise<number> {
+    await this.start();
+
+    const { data, info } = await sharp(image)
+      .rotate()
+      .resize(this.config.maxImageSide, this.config.maxImageSide, { fit: 'inside', withoutEnlargement: true })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const tensor = tf.tensor3d(data, [info.height, info.width, 3], 'int32');
+    try {
+      const detections = await faceapi.detectAllFaces(
+        tensor as unknown as faceapi.TNetInput,
+        new faceapi.TinyFaceDetectorOptions({ inputSize: COUNT_DETECTOR_SIZE, scoreThreshold: this.config.minDetectionScore }),
+      );
+      return detections.length;
+    } finally {
+      tensor.dispose();
+    }
+  }
+
+  // Far cheaper than detectFaces: the tiny detector, and no descriptor or age.
+  // Frames are small, so they are not scaled.
+  async analyzeFrame(frame: Buffer): Promise<FrameAnalysis | null> {
+    await this.start();
+
+    const { data, info } = await sharp(frame).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+    const tensor = tf.tensor3d(data, [info.height, info.width, 3], 'int32');
+    try {
+      const results = await faceapi
+        .detectAllFaces(tensor as unknown as faceapi.TNetInput, new faceapi.TinyFaceDetectorOptions({ inputSize: FRAME_DETECTOR_SIZE, scoreThreshold: this.config.minDetectionScore }))
+        .withFaceLandmarks()
+        .withFaceExpressions();
+      if (results.length === 0) return null;
+
+      const largest = results.reduce((a, b) => b.detection.box.area > a.detection.box.area ? b : a);
+      const { box, score } = largest.detection;
+      return {
+        faceCount: results.length,
+        box: { x: Math.round(box.x), y: Math.round(box.y), width: Math.round(box.width), height: Math.round(box.height), score: Math.round(score * 1000) / 1000 },
+        landmarks: largest.landmarks.positions.map(point => ({ x: point.x, y: point.y })),
+        happy: largest.expressions.happy,
+      };
+    } finally {
+      tensor.dispose();
+    }
+  }
+
+  private async load(): Promise<void> {
+    setWasmPaths(path.resolve(process.cwd(), 'node_modules', '@tensorflow', 'tfjs-backend-wasm', 'dist') + path.sep);
+    await tf.setBackend('wasm');
+    await tf.ready();
+
+    await faceapi.nets.ssdMobilenetv1.loadFromDisk(this.config.modelDirectory);
+    await faceapi.nets.tinyFaceDetector.loadFromDisk(this.config.modelDirectory);
+    await faceapi.nets.faceLandmark68Net.loadFromDisk(this.config.modelDirectory);
+    await faceapi.nets.faceRecognitionNet.loadFromDisk(this.config.modelDirectory);
+    await faceapi.nets.ageGenderNet.loadFromDisk(this.config.modelDirectory);
+    await faceapi.nets.faceExpressionNet.loadFromDisk(this.config.modelDirectory);
+  }
+}
+
+export function faceDistance(a: Float32Array, b: Float32Array): number {
+  return faceapi.euclideanDistance(a, b);
+}
+
+export const faceAnalyzer = new FaceAnalyzer();
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { occlusionReasons, poseReasons, type FaceColours, type PatchColour } from "./face-capture";
+
+// Poses in degrees and patch colours as the checks receive them, so the thresholds
+// are exercised without a face model or an image
+
+const FRONTAL = { yaw: 0, pitch: 0, roll: 0 };
+const OPEN_EYES = 0.3;
+
+function colour(luma: number, red = 0.45, green = 0.32): PatchColour {
+  return { luma, red, green };
+}
+
+// An uncovered face under even light
+function face(overrides: Partial<FaceColours> = {}): FaceColours {
+  return { eyes: colour(90), cheeks: colour(150), bridge: colour(150), lowerFace: colour(140), ...overrides };
+}
+
+test('accepts a frontal face with open eyes', () => {
+  assert.deepEqual(poseReasons(FRONTAL, OPEN_EYES, []), []);
+  assert.deepEqual(occlusionReasons(face()), []);
+});
+
+test('allows the head up to each pose limit and no further', () => {
+  assert.deepEqual(poseReasons({ yaw: 20, pitch: -20, roll: 15 }, OPEN_EYES, []), []);
+
+  assert.deepEqual(poseReasons({ ...FRONTAL, yaw: 20.5 }, OPEN_EYES, []), ['head_turned']);
+  assert.deepEqual(poseReasons({ ...FRONTAL, yaw: -21 }, OPEN_EYES, []), ['head_turned']);
+  assert.deepEqual(poseReasons({ ...FRONTAL, pitch: 21 }, OPEN_EYES, []), ['head_pitched']);
+  assert.deepEqual(poseReasons({ ...FRONTAL, roll: -16 }, OPEN_EYES, []), ['head_tilted']);
+  assert.deepEqual(poseReasons({ yaw: 30, pitch: 25, roll: 18 }, OPEN_EYES, []), ['head_turned', 'head_pitched', 'head_tilted']);
+});
+
+test('reports closed eyes below the openness threshold unless they are covered', () => {
+  assert.deepEqual(poseReasons(FRONTAL, 0.18, []), []);
+  assert.deepEqual(poseReasons(FRONTAL, 0.17, []), ['eyes_closed']);
+  assert.deepEqual(poseReasons(FRONTAL, 0.1, ['eyes_covered']), []);
+  assert.deepEqual(poseReasons(FRONTAL, 0.1, ['lower_face_covered']), ['eyes_closed']);
+});
+
+test('reports eyes far darker than both the cheeks and the nose bridge as covered', () => {
+  // The threshold is 0.45 of the reference brightness
+  assert.deepEqual(occlusionReasons(face({ eyes: colour(67) })), ['eyes_covered']);
+  assert.deepEqual(occlusionReasons(face({ eyes: colour(68) })), []);
+});
+
+test('does not call the eyes covered when only one reference is brighter', () => {
+  // A dark mask over the cheeks
+  assert.deepEqual(occlusionReasons(face({ eyes: colour(40), cheeks: colour(50) })), []);
+  // A shadow across the nose bridge, and so the lower face
+  assert.deepEqual(occlusionReasons(face({ eyes: colour(40), bridge: colour(50), lowerFace: colour(50) })), []);
+  // Patches that fell outside the crop
+  assert.deepEqual(occlusionReasons(face({ eyes: colour(40), bridge: null })), []);
+  assert.deepEqual(occlusionReasons(face({ eyes: null })), []);
+});
+
+test('reports a mouth and chin of a different colour from the skin as covered', () => {
+  // A blue surgical mask
+  assert.deepEqual(occlusionReasons(face({ lowerFace: colour(140, 0.3, 0.33) })), ['lower_face_covered']);
+  // Lips and stubble shift the colour a little
+  assert.deepEqual(occlusionReasons(face({ lowerFace: colour(120, 0.49, 0.29) })), []);
+});
+
+test('reports a mouth and chin far brighter than the nose bridge as covered', () => {
+  // A white mask keeps the skin's chromaticity; the threshold is 1.6 times the bridge
+  assert.deepEqual(occlusionReasons(face({ lowerFace: colour(241) })), ['lower_face_covered']);
+  assert.deepEqual(occlusionReasons(face({ lowerFace: colour(240) })), []);
+  // A black bridge gives no reference
+  assert.deepEqual(occlusionReasons(face({ eyes: colour(0), cheeks: colour(0), bridge: colour(0), lowerFace: colour(200, 0.2, 0.2) })), []);
+});
+
+test('reports covered eyes and a covered lower face together', () => {
+  assert.deepEqual(occlusionReasons(face({ eyes: colour(30), lowerFace: colour(140, 0.3, 0.33) })), ['eyes_covered', 'lower_face_covered']);
+});
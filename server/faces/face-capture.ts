@@ -0,0 +1,182 @@
+import sharp from "sharp";
+import { distance, eyeOpenness, headPose, midpoint, type FacePoint, type HeadPose } from "@shared/face-geometry";
+import { faceAnalyzer, type FaceAnalysis } from "./face-analyzer";
+
+// Checks that a captured image shows one usable face before it is accepted: a
+// selfie must show a single, frontal face with open, uncovered eyes and an
+// uncovered mouth; a document only needs a face on it.
+
+export type FaceCaptureSubject = 'selfie' | 'document';
+
+export type FaceCaptureReason =
+  | 'no_face'
+  | 'multiple_faces'
+  | 'head_turned'
+  | 'head_pitched'
+  | 'head_tilted'
+  | 'eyes_closed'
+  | 'eyes_covered'
+  | 'lower_face_covered';
+
+export interface FaceCaptureCheck {
+  faceCount: number;
+  pose: HeadPose | null;
+  eyeOpenness: number | null;
+  reasons: FaceCaptureReason[];
+  guidance: string[];
+}
+
+// Degrees either side of facing the camera
+const MAX_YAW = 20;
+const MAX_PITCH = 20;
+const MAX_ROLL = 15;
+// Eye aspect ratio; open eyes are usually 0.25-0.35
+const MIN_EYE_OPENNESS = 0.18;
+// Sunglasses make the eyes far darker than the cheeks and nose bridge
+const EYES_COVERED_LUMA_RATIO = 0.45;
+// A mask or hand changes the colour of the mouth and chin away from the skin above
+const LOWER_FACE_CHROMA_DISTANCE = 0.06;
+const LOWER_FACE_LUMA_RATIO = 1.6;
+
+export const FACE_CAPTURE_GUIDANCE: Record<FaceCaptureReason, string> = {
+  no_face: 'No face was found. Make sure your whole face is in the frame and well lit.',
+  multiple_faces: 'More than one face is visible. Make sure only you are in the frame.',
+  head_turned: 'Your head is turned. Look straight at the camera.',
+  head_pitched: 'Your head is tilted up or down. Hold the camera at eye level and look straight ahead.',
+  head_tilted: 'Your head is tilted to the side. Keep your head upright.',
+  eyes_closed: 'Your eyes look closed. Keep your eyes open and look at the camera.',
+  eyes_covered: 'Your eyes are covered. Remove sunglasses or anything in front of your eyes.',
+  lower_face_covered: 'Your mouth or chin is covered. Remove any mask and keep your hands away from your face.',
+};
+
+const DOCUMENT_GUIDANCE: Partial<Record<FaceCaptureReason, string>> = {
+  no_face: 'No face was found on the document. Upload the side with your photo, in focus and without glare.',
+};
+
+export interface PatchColour {
+  luma: number;
+  // Chromaticity: each channel's share of the total, so lighting strength cancels out
+  red: number;
+  green: number;
+}
+
+// Mean colour of a square patch around a point in the face crop
+function patchColour(data: Buffer, width: number, height: number, channels: number, centre: FacePoint, radius: number): PatchColour | null {
+  let red = 0;
+  let green = 0;
+  let blue = 0;
+  let count = 0;
+  for (let y = Math.max(0, Math.round(centre.y - radius)); y <= Math.min(height - 1, Math.round(centre.y + radius)); y++) {
+    for (let x = Math.max(0, Math.round(centre.x - radius)); x <= Math.min(width - 1, Math.round(centre.x + radius)); x++) {
+      const i = (y * width + x) * channels;
+      red += data[i];
+      green += data[i + 1];
+      blue += data[i + 2];
+      count++;
+    }
+  }
+  if (count === 0) return null;
+  const total = red + green + blue || 1;
+  return { luma: (0.299 * red + 0.587 * green + 0.114 * blue) / count, red: red / total, green: green / total };
+}
+
+// Mean colours of the patches the occlusion checks compare
+export interface FaceColours {
+  eyes: PatchColour | null;
+  cheeks: PatchColour | null;
+  bridge: PatchColour | null;
+  lowerFace: PatchColour | null;
+}
+
+function averageColour(patches: (PatchColour | null)[]): PatchColour | null {
+  const present = patches.filter((patch): patch is PatchColour => patch !== null);
+  if (present.length === 0) return null;
+  return {
+    luma: present.reduce((sum, patch) => sum + patch.luma, 0) / present.length,
+    red: present.reduce((sum, patch) => sum + patch.red, 0) / present.length,
+    green: present.reduce((sum, patch) => sum + patch.green, 0) / present.length,
+  };
+}
+
+// Landmarks still land on a covered face, so occlusion is judged from the colour
+// underneath them: eyes against the cheeks and nose bridge, mouth and chin against the bridge
+async function findOcclusions(imagePath: string, analysis: FaceAnalysis, points: FacePoint[]): Promise<FaceCaptureReason[]> {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const left = Math.max(0, Math.floor(Math.min(...xs)));
+  const top = Math.max(0, Math.floor(Math.min(...ys)));
+  const right = Math.min(analysis.width, Math.ceil(Math.max(...xs)) + 1);
+  const bottom = Math.min(analysis.height, Math.ceil(Math.max(...ys)) + 1);
+  if (right - left < 8 || bottom - top < 8) return [];
+
+  const { data, info } = await sharp(imagePath).rotate()
+    .extract({ left, top, width: right - left, height: bottom - top })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const local = points.map(point => ({ x: point.x - left, y: point.y - top }));
+  const eyeSpan = distance(local[36], local[45]);
+  const radius = Math.max(1, eyeSpan * 0.06);
+  const colour = (centre: FacePoint) => patchColour(data, info.width, info.height, info.channels, centre, radius);
+
+  return occlusionReasons({
+    eyes: averageColour([colour(midpoint(local[37], local[40])), colour(midpoint(local[43], local[46]))]),
+    cheeks: averageColour([colour(midpoint(local[2], local[31])), colour(midpoint(local[14], local[35]))]),
+    bridge: colour(local[28]),
+    lowerFace: averageColour([colour(midpoint(local[62], local[66])), colour(midpoint(local[57], local[8]))]),
+  });
+}
+
+export function occlusionReasons({ eyes, cheeks, bridge, lowerFace }: FaceColours): FaceCaptureReason[] {
+  const reasons: FaceCaptureReason[] = [];
+  // Checking the bridge too stops a mask over the cheeks from making the eyes look dark
+  const darkerThan = (reference: PatchColour | null) => !!reference && reference.luma > 0 && eyes!.luma / reference.luma < EYES_COVERED_LUMA_RATIO;
+  if (eyes && darkerThan(cheeks) && darkerThan(bridge)) {
+    reasons.push('eyes_covered');
+  }
+  if (lowerFace && bridge && bridge.luma > 0) {
+    const chroma = Math.hypot(lowerFace.red - bridge.red, lowerFace.green - bridge.green);
+    if (chroma > LOWER_FACE_CHROMA_DISTANCE || lowerFace.luma / bridge.luma > LOWER_FACE_LUMA_RATIO) {
+      reasons.push('lower_face_covered');
+    }
+  }
+  return reasons;
+}
+
+// Head pose and eye checks on the landmarks of a selfie
+export function poseReasons(pose: HeadPose, openness: number, occlusions: FaceCaptureReason[]): FaceCaptureReason[] {
+  const reasons: FaceCaptureReason[] = [];
+  if (Math.abs(pose.yaw) > MAX_YAW) reasons.push('head_turned');
+  if (Math.abs(pose.pitch) > MAX_PITCH) reasons.push('head_pitched');
+  if (Math.abs(pose.roll) > MAX_ROLL) reasons.push('head_tilted');
+  // Dark lenses also read as closed eyes; covered is the more useful guidance
+  if (openness < MIN_EYE_OPENNESS && !occlusions.includes('eyes_covered')) reasons.push('eyes_closed');
+  return reasons;
+}
+
+export async function checkFaceCapture(imagePath: string, subject: FaceCaptureSubject, analysis?: FaceAnalysis): Promise<FaceCaptureCheck> {
+  const faces = analysis || await faceAnalyzer.detectFaces(imagePath);
+  const reasons: FaceCaptureReason[] = [];
+  let faceCount = faces.faces.length;
+  let pose: HeadPose | null = null;
+  let openness: number | null = null;
+
+  // Documents may carry a second, ghost portrait, so only selfies must show a single face
+  if (subject === 'selfie') {
+    faceCount = Math.max(faceCount, await faceAnalyzer.countFaces(imagePath));
+    if (faceCount > 1) reasons.push('multiple_faces');
+  }
+
+  if (faces.faces.length === 0) {
+    if (faceCount <= 1) reasons.push('no_face');
+  } else if (subject === 'selfie') {
+    const points = faces.faces[0].landmarks;
+    pose = headPose(points);
+    openness = Math.round(eyeOpenness(points) * 1000) / 1000;
+    const occlusions = await findOcclusions(imagePath, faces, points);
+    reasons.push(...poseReasons(pose, openness, occlusions), ...occlusions);
+  }
+
+  const guidance = reasons.map(reason => (subject === 'document' && DOCUMENT_GUIDANCE[reason]) || FACE_CAPTURE_GUIDANCE[reason]);
+  return { faceCount, pose, eyeOpenness: openness, reasons, guidance };
+}
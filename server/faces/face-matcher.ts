@@ -0,0 +1,81 @@
+import type { FaceBoxes } from "@shared/schema";
+import { faceAnalyzer, faceDistance, type FaceAnalysis, type FaceBox } from "./face-analyzer";
+
+// Compares the largest face on the document with the largest face in the selfie
+// and turns the descriptor distance into a 0-100 similarity.
+
+export interface FaceComparison {
+  score: number; // Similarity, 0-100, from a hand-set curve over the distance; 50 is the match threshold
+  confidence: number;
+  distance: number | null; // Euclidean distance between descriptors; null when a face is missing
+  modelVersion: string;
+  faceBoxes: FaceBoxes;
+  feedback: string[];
+}
+
+// The score is a logistic curve over the distance with hand-picked constants, not
+// fitted to labelled document and selfie pairs, so it orders matches but is not a
+// probability of being the same person.
+//
+// Descriptor distance that maps to a score of 50. The model is tuned to separate
+// people at 0.6; printed ID photos are older and lower quality than the photos it
+// was trained on, so the cut is tighter to keep impostors out.
+const MATCH_DISTANCE = 0.55;
+// Distance change that moves the score from 50 to about 73 (or 27)
+const DISTANCE_SCALE = 0.05;
+
+// Faces narrower than this many pixels give unstable descriptors
+const MIN_FACE_WIDTH = 80;
+
+function similarityScore(distance: number): number {
+  return Math.round(100 / (1 + Math.exp((distance - MATCH_DISTANCE) / DISTANCE_SCALE)));
+}
+
+function boxes(analysis: FaceAnalysis): FaceBox[] {
+  return analysis.faces.map(face => face.box);
+}
+
+export async function compareFaces(documentPath: string, selfiePath: string): Promise<FaceComparison> {
+  const documentFaces = await faceAnalyzer.detectFaces(documentPath);
+  const selfieFaces = await faceAnalyzer.detectFaces(selfiePath);
+  const result = {
+    modelVersion: faceAnalyzer.getModelVersion(),
+    faceBoxes: { document: boxes(documentFaces), selfie: boxes(selfieFaces) },
+  };
+
+  const documentFace = documentFaces.faces[0];
+  const selfieFace = selfieFaces.faces[0];
+  if (!documentFace || !selfieFace) {
+    const feedback: string[] = [];
+    if (!documentFace) feedback.push('No face was found in the photo on your ID. Upload a sharper photo of the document with the portrait clearly visible.');
+    if (!selfieFace) feedback.push('No face was found in your selfie. Face the camera directly in good lighting and try again.');
+    return { ...result, score: 0, confidence: 0, distance: null, feedback };
+  }
+
+  const distance = faceDistance(documentFace.descriptor, selfieFace.descriptor);
+  const feedback: string[] = [];
+
+  // Confidence starts from how sure the detector is that both are faces
+  let confidence = Math.min(documentFace.box.score, selfieFace.box.score) * 100;
+
+  if (selfieFaces.faces.length > 1) {
+    feedback.push('More than one face is visible in your selfie. Make sure you are alone in the frame.');
+    confidence -= 25;
+  }
+  if (selfieFace.box.width < MIN_FACE_WIDTH) {
+    feedback.push('Your face is small in the selfie. Move closer to the camera.');
+    confidence -= 15;
+  }
+  if (documentFace.box.width < MIN_FACE_WIDTH) {
+    feedback.push('The photo on your ID is small or low resolution. Photograph the document from closer.');
+    confidence -= 15;
+  }
+
+  return {
+    ...result,
+    score: similarityScore(distance),
+    confidence: Math.round(Math.max(0, Math.min(100, confidence))),
+    distance: Math.round(distance * 1000) / 1000,
+    feedback,
+  };
+}
@@ -0,0 +1,177 @@
+import crypto from "crypto";
+import { livenessPrompts, type LivenessChallenge, type LivenessPrompt, type LivenessResult } from "@shared/schema";
+import { faceAnalyzer, faceDistance, type FrameAnalysis } from "./face-analyzer";
+import { eyeOpenness, noseOffset } from "@shared/face-geometry";
+
+// Challenge-response liveness. The server picks a few random actions, the client
+// films the user performing them in order, and each frame is measured from its
+// face landmarks and expression. A printed or on-screen photo cannot blink, turn
+// or smile on request.
+
+export const LIVENESS_FRAME_LIMIT = 60;
+
+const PROMPTS_PER_CHALLENGE = 2;
+const CHALLENGE_TTL_MS = 2 * 60 * 1000;
+
+const MIN_FRAMES = 10;
+// Share of frames that must show a face; a face that leaves the frame cannot be followed
+const MIN_FACE_PRESENCE = 0.8;
+// Frames at the start of the recording, before the first prompt, give the neutral pose
+const BASELINE_FRAMES = 3;
+
+// Eyes count as closed below this share of their baseline openness, and open again above the second
+const EYES_CLOSED_RATIO = 0.7;
+const EYES_OPEN_RATIO = 0.85;
+// Change in nose position between the eyes, as a share of the eye span
+const TURN_DELTA = 0.12;
+const SMILE_PROBABILITY = 0.7;
+const NEUTRAL_SMILE_PROBABILITY = 0.5;
+
+// Looser than the face match threshold: frames are small and taken mid-movement
+const SAME_PERSON_DISTANCE = 0.6;
+const IDENTITY_SAMPLES = 3;
+
+export interface LivenessFrameOptions {
+  // The client mirrors its preview and frames, which swaps left and right in the image
+  mirrored: boolean;
+  // Frames are compared with the selfie so another person cannot do the challenge
+  selfiePath: string;
+}
+
+export interface LivenessOutcome {
+  outcome: 'passed' | 'failed';
+  score: number;
+  result: LivenessResult;
+}
+
+interface FrameMeasure {
+  index: number;
+  eyeOpenness: number;
+  yaw: number; // Positive when the user turns to their own left
+  happy: number;
+}
+
+export function issueLivenessChallenge(now: Date = new Date()): LivenessChallenge {
+  const pool: LivenessPrompt[] = [...livenessPrompts];
+  const prompts: LivenessPrompt[] = [];
+  while (prompts.length < PROMPTS_PER_CHALLENGE) {
+    prompts.push(pool.splice(crypto.randomInt(pool.length), 1)[0]);
+  }
+  return {
+    id: crypto.randomUUID(),
+    prompts,
+    issuedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + CHALLENGE_TTL_MS).toISOString(),
+  };
+}
+
+export function isChallengeExpired(challenge: LivenessChallenge, now: Date = new Date()): boolean {
+  return now.getTime() > Date.parse(challenge.expiresAt);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function measure(index: number, frame: FrameAnalysis, mirrored: boolean): FrameMeasure {
+  // Turning to your left moves the nose towards the right of an unmirrored image
+  const offset = noseOffset(frame.landmarks);
+  return { index, eyeOpenness: eyeOpenness(frame.landmarks), yaw: mirrored ? -offset : offset, happy: frame.happy };
+}
+
+// First frame at or after `from` where the prompt is performed, or null
+function findPrompt(prompt: LivenessPrompt, frames: FrameMeasure[], baseline: FrameMeasure, from: number): number | null {
+  const candidates = frames.filter(frame => frame.index >= from);
+  switch (prompt) {
+    case 'blink': {
+      const closed = candidates.find(frame => frame.eyeOpenness < baseline.eyeOpenness * EYES_CLOSED_RATIO);
+      const reopened = closed && candidates.some(frame => frame.index > closed.index && frame.eyeOpenness > baseline.eyeOpenness * EYES_OPEN_RATIO);
+      return closed && reopened ? closed.index : null;
+    }
+    case 'turn_left':
+      return candidates.find(frame => frame.yaw - baseline.yaw >= TURN_DELTA)?.index ?? null;
+    case 'turn_right':
+      return candidates.find(frame => baseline.yaw - frame.yaw >= TURN_DELTA)?.index ?? null;
+    case 'smile':
+      if (baseline.happy >= NEUTRAL_SMILE_PROBABILITY) return null;
+      return candidates.find(frame => frame.happy >= SMILE_PROBABILITY)?.index ?? null;
+  }
+}
+
+// no_face when not one sampled frame could be compared with the selfie; the video
+// detector can find a face the slower descriptor detector misses
+async function matchSelfie(frames: Buffer[], faceIndexes: number[], selfiePath: string): Promise<'same_person' | 'different_person' | 'no_face'> {
+  const selfie = (await faceAnalyzer.detectFaces(selfiePath)).faces[0];
+  if (!selfie) return 'no_face';
+
+  // First, middle and last frames with a face
+  const samples = Array.from(new Set([0, Math.floor(faceIndexes.length / 2), faceIndexes.length - 1]))
+    .slice(0, IDENTITY_SAMPLES)
+    .map(position => faceIndexes[position]);
+  let compared = 0;
+  for (const index of samples) {
+    const face = (await faceAnalyzer.detectFaces(frames[index])).faces[0];
+    if (!face) continue;
+    compared++;
+    if (faceDistance(face.descriptor, selfie.descriptor) > SAME_PERSON_DISTANCE) return 'different_person';
+  }
+  return compared > 0 ? 'same_person' : 'no_face';
+}
+
+// Frames must be in capture order, starting with a neutral pose before the first prompt
+export async function checkLiveness(challenge: LivenessChallenge, frames: Buffer[], options: LivenessFrameOptions): Promise<LivenessOutcome> {
+  const reasons: string[] = [];
+  const analyses: (FrameAnalysis | null)[] = [];
+  for (const frame of frames) {
+    analyses.push(await faceAnalyzer.analyzeFrame(frame));
+  }
+
+  const measures = analyses.flatMap((analysis, index) => analysis ? [measure(index, analysis, options.mirrored)] : []);
+  const presence = frames.length > 0 ? measures.length / frames.length : 0;
+  if (frames.length < MIN_FRAMES) reasons.push('too_few_frames');
+  if (presence < MIN_FACE_PRESENCE) reasons.push('face_missing');
+  if (analyses.some(analysis => analysis && analysis.faceCount > 1)) reasons.push('multiple_faces');
+
+  const prompts: LivenessResult['prompts'] = [];
+  if (measures.length > BASELINE_FRAMES) {
+    const start = measures.slice(0, BASELINE_FRAMES);
+    const baseline: FrameMeasure = {
+      index: start[start.length - 1].index,
+      eyeOpenness: median(start.map(frame => frame.eyeOpenness)),
+      yaw: median(start.map(frame => frame.yaw)),
+      happy: median(start.map(frame => frame.happy)),
+    };
+
+    // Prompts must be performed in the order they were issued
+    let from = baseline.index + 1;
+    for (const prompt of challenge.prompts) {
+      const frame = findPrompt(prompt, measures, baseline, from);
+      prompts.push({ prompt, passed: frame !== null, frame });
+      if (frame !== null) from = frame + 1;
+    }
+  } else {
+    prompts.push(...challenge.prompts.map(prompt => ({ prompt, passed: false, frame: null })));
+  }
+  if (prompts.some(prompt => !prompt.passed)) reasons.push('prompt_not_performed');
+
+  const identity = measures.length > 0 ? await matchSelfie(frames, measures.map(frame => frame.index), options.selfiePath) : 'no_face';
+  const sameFace = identity === 'same_person';
+  if (!sameFace) reasons.push(identity);
+
+  const performed = prompts.filter(prompt => prompt.passed).length / challenge.prompts.length;
+  const disqualified = !sameFace || reasons.includes('multiple_faces');
+  const score = disqualified ? 0 : Math.round(100 * performed * Math.min(1, presence));
+
+  return {
+    outcome: reasons.length === 0 ? 'passed' : 'failed',
+    score,
+    result: {
+      challengeId: challenge.id,
+      prompts,
+      framesAnalysed: frames.length,
+      faceFrames: measures.length,
+      reasons,
+    },
+  };
+}
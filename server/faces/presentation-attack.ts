@@ -0,0 +1,319 @@
+import sharp from "sharp";
+import { faceAnalyzer, type FaceAnalysis, type FaceBox } from "./face-analyzer";
+
+// Passive presentation-attack detection on a single selfie frame: looks for signs
+// that the camera was pointed at a screen or a printed photo rather than a face.
+// Each cue gives a 0-1 signal; they are combined into a 0-100 spoofScore.
+
+export type PresentationAttackReason = 'screen_moire' | 'print_texture' | 'device_bezel' | 'flat_depth';
+
+export interface PresentationAttackResult {
+  spoofScore: number;
+  reasons: PresentationAttackReason[];
+  signals: Record<PresentationAttackReason, number>;
+}
+
+// Selfies scoring above this are rejected at upload
+export const SPOOF_SCORE_THRESHOLD = parseInt(process.env.SPOOF_SCORE_THRESHOLD || '60');
+
+// How much each cue alone can contribute. Flat depth is the weakest cue and can
+// never reach the default threshold by itself.
+const SIGNAL_WEIGHTS: Record<PresentationAttackReason, number> = {
+  screen_moire: 0.9,
+  device_bezel: 0.85,
+  print_texture: 0.6,
+  flat_depth: 0.5,
+};
+
+// A cue at or above this strength is reported as a reason
+const REASON_SIGNAL = 0.5;
+
+export const PRESENTATION_ATTACK_GUIDANCE: Record<PresentationAttackReason, string> = {
+  screen_moire: 'Screen patterns were detected. Take the selfie of your own face, not of a phone or computer screen.',
+  print_texture: 'The image looks like a printed photo. Take a live selfie of your own face.',
+  device_bezel: 'The edges of a phone, tablet or photo were detected around your face. Remove anything held up to the camera.',
+  flat_depth: 'Your face looks flat, like a picture. Face the camera directly in even lighting, away from a plain wall.',
+};
+
+interface GrayImage {
+  width: number;
+  height: number;
+  pixels: Float64Array;
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+async function loadGray(imagePath: string, region?: sharp.Region, width?: number): Promise<GrayImage> {
+  let image = sharp(imagePath).rotate();
+  if (region) image = image.extract(region);
+  if (width) image = image.resize(width);
+  const { data, info } = await image.greyscale().raw().toBuffer({ resolveWithObject: true });
+  return { width: info.width, height: info.height, pixels: Float64Array.from(data) };
+}
+
+// In-place iterative radix-2 FFT; length must be a power of two
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+// Magnitude spectrum of a square, Hann-windowed image
+function spectrum(image: GrayImage): Float64Array {
+  const n = image.width;
+  const re = new Float64Array(n * n);
+  const im = new Float64Array(n * n);
+  const hann = (i: number) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (n - 1));
+  let mean = 0;
+  for (let i = 0; i < n * n; i++) mean += image.pixels[i];
+  mean /= n * n;
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) re[y * n + x] = (image.pixels[y * n + x] - mean) * hann(x) * hann(y);
+  }
+
+  const rowRe = new Float64Array(n);
+  const rowIm = new Float64Array(n);
+  for (let pass = 0; pass < 2; pass++) {
+    for (let line = 0; line < n; line++) {
+      for (let i = 0; i < n; i++) {
+        const index = pass === 0 ? line * n + i : i * n + line;
+        rowRe[i] = re[index];
+        rowIm[i] = im[index];
+      }
+      fft(rowRe, rowIm);
+      for (let i = 0; i < n; i++) {
+        const index = pass === 0 ? line * n + i : i * n + line;
+        re[index] = rowRe[i];
+        im[index] = rowIm[i];
+      }
+    }
+  }
+
+  const magnitude = new Float64Array(n * n);
+  for (let i = 0; i < n * n; i++) magnitude[i] = Math.hypot(re[i], im[i]);
+  return magnitude;
+}
+
+// Moiré and halftone show up as isolated peaks in the mid-to-high frequencies,
+// far above the smooth fall-off of a natural image. Peaks are measured against
+// the mean magnitude at the same radius. JPEG's 8x8 block grid and the axes are skipped.
+function moireSignal(image: GrayImage): number {
+  const n = image.width;
+  const magnitude = spectrum(image);
+  const half = n / 2;
+  const minRadius = Math.round(n * 0.12);
+  const maxRadius = Math.round(n * 0.47);
+  const block = n / 8;
+  const isGridBin = (f: number) => {
+    const offset = ((f % block) + block) % block;
+    return offset <= 1 || offset >= block - 1;
+  };
+
+  const bins: { radius: number; value: number }[] = [];
+  const radialSum = new Float64Array(half + 1);
+  const radialCount = new Float64Array(half + 1);
+  // Half the plane is enough: the spectrum of a real image is symmetric
+  for (let v = 0; v < half; v++) {
+    for (let u = -half + 1; u < half; u++) {
+      if (u === 0 || v === 0 || (isGridBin(u) && isGridBin(v))) continue;
+      const radius = Math.round(Math.hypot(u, v));
+      if (radius < minRadius || radius > maxRadius) continue;
+      const value = magnitude[v * n + ((u + n) % n)];
+      bins.push({ radius, value });
+      radialSum[radius] += value;
+      radialCount[radius]++;
+    }
+  }
+  if (bins.length === 0) return 0;
+
+  const ratios = bins.map(bin => bin.value / (radialSum[bin.radius] / radialCount[bin.radius] || 1)).sort((a, b) => b - a);
+  // Mean of the strongest few bins, so one noisy bin does not count as a pattern
+  const top = ratios.slice(0, Math.max(3, Math.round(ratios.length * 0.001)));
+  const peak = top.reduce((sum, value) => sum + value, 0) / top.length;
+  return clamp01((peak - 5) / 5);
+}
+
+// Prints and photos of prints have a compressed tonal range and washed-out colour
+async function printSignal(imagePath: string, face: sharp.Region): Promise<number> {
+  const { data, info } = await sharp(imagePath).rotate().extract(face).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const luma: number[] = [];
+  let saturation = 0;
+  for (let i = 0; i < data.length; i += info.channels) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    luma.push(0.299 * r + 0.587 * g + 0.114 * b);
+    saturation += max === 0 ? 0 : (max - min) / max;
+  }
+  luma.sort((a, b) => a - b);
+  const range = luma[Math.floor(luma.length * 0.98)] - luma[Math.floor(luma.length * 0.02)];
+  const meanSaturation = saturation / luma.length;
+
+  return clamp01((120 - range) / 60) * 0.6 + clamp01((0.15 - meanSaturation) / 0.1) * 0.4;
+}
+
+// Longest run of strong edge pixels along one row or column, allowing small gaps
+function longestRun(strong: (i: number) => boolean, length: number): number {
+  let best = 0;
+  let run = 0;
+  let gap = 0;
+  for (let i = 0; i < length; i++) {
+    if (strong(i)) {
+      run += gap + 1;
+      gap = 0;
+    } else if (run > 0 && gap < 3) {
+      gap++;
+    } else {
+      run = 0;
+      gap = 0;
+    }
+    best = Math.max(best, run);
+  }
+  return best;
+}
+
+// A phone, tablet or photo held up to the camera leaves long straight edges on
+// several sides of the face
+function bezelSignal(image: GrayImage, face: FaceBox, scale: number): number {
+  const { width, height, pixels } = image;
+  const at = (x: number, y: number) => pixels[y * width + x];
+  const EDGE = 60;
+  const horizontalEdge = (x: number, y: number) => Math.abs(at(x, y + 1) - at(x, y - 1)) > EDGE;
+  const verticalEdge = (x: number, y: number) => Math.abs(at(x + 1, y) - at(x - 1, y)) > EDGE;
+
+  const box = { left: face.x / scale, top: face.y / scale, right: (face.x + face.width) / scale, bottom: (face.y + face.height) / scale };
+  const margin = 3; // Ignore the image border itself
+  const lineAt = (from: number, to: number, row: boolean) => {
+    for (let i = from; i < to; i++) {
+      const run = row
+        ? longestRun(x => x > 0 && x < width - 1 && horizontalEdge(x, i), width)
+        : longestRun(y => y > 0 && y < height - 1 && verticalEdge(i, y), height);
+      if (run >= (row ? width : height) * 0.5) return true;
+    }
+    return false;
+  };
+
+  const sides = [
+    lineAt(margin, Math.floor(box.top), true),
+    lineAt(Math.ceil(box.bottom), height - margin, true),
+    lineAt(margin, Math.floor(box.left), false),
+    lineAt(Math.ceil(box.right), width - margin, false),
+  ].filter(Boolean).length;
+
+  return sides >= 4 ? 1 : sides === 3 ? 0.8 : sides === 2 ? 0.4 : 0;
+}
+
+function laplacianVariance(image: GrayImage, inside: (x: number, y: number) => boolean): number {
+  const { width, height, pixels } = image;
+  let sum = 0;
+  let sumSquared = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      if (!inside(x, y)) continue;
+      const i = y * width + x;
+      const value = 4 * pixels[i] - pixels[i - 1] - pixels[i + 1] - pixels[i - width] - pixels[i + width];
+      sum += value;
+      sumSquared += value * value;
+      count++;
+    }
+  }
+  return count > 0 ? sumSquared / count - (sum / count) ** 2 : 0;
+}
+
+// A camera focused on a real face leaves the background softer; a picture is one
+// plane, so the background is as sharp as the face
+function flatnessSignal(image: GrayImage, face: FaceBox, scale: number): number {
+  const pad = 0.25;
+  const left = (face.x - face.width * pad) / scale;
+  const right = (face.x + face.width * (1 + pad)) / scale;
+  const top = (face.y - face.height * pad) / scale;
+  const bottom = (face.y + face.height * (1 + pad)) / scale;
+  const inFace = (x: number, y: number) => x >= face.x / scale && x < (face.x + face.width) / scale && y >= face.y / scale && y < (face.y + face.height) / scale;
+  const inBackground = (x: number, y: number) => x < left || x >= right || y < top || y >= bottom;
+
+  const faceSharpness = laplacianVariance(image, inFace);
+  const backgroundSharpness = laplacianVariance(image, inBackground);
+  if (faceSharpness === 0) return 0;
+  return clamp01((backgroundSharpness / faceSharpness - 0.8) / 0.4);
+}
+
+function clampRegion(region: sharp.Region, width: number, height: number): sharp.Region {
+  const left = Math.max(0, Math.min(width - 1, Math.round(region.left)));
+  const top = Math.max(0, Math.min(height - 1, Math.round(region.top)));
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(width - left, Math.round(region.width))),
+    height: Math.max(1, Math.min(height - top, Math.round(region.height))),
+  };
+}
+
+const ANALYSIS_WIDTH = 320;
+const MAX_SPECTRUM_SIZE = 512;
+const MIN_SPECTRUM_SIZE = 64;
+
+// Pass the face analysis when the caller already has one, to skip detecting again
+export async function assessPresentationAttack(imagePath: string, faces?: FaceAnalysis): Promise<PresentationAttackResult> {
+  const analysis = faces || await faceAnalyzer.detectFaces(imagePath);
+  const { width, height } = analysis;
+  // Without a face the centre of the frame is examined
+  const face: FaceBox = analysis.faces[0]?.box || { x: width / 4, y: height / 4, width: width / 2, height: height / 2, score: 0 };
+
+  // The spectrum is taken at full resolution, where screen and print patterns live
+  let size = MAX_SPECTRUM_SIZE;
+  while (size > MIN_SPECTRUM_SIZE && size > Math.min(width, height)) size /= 2;
+  const centreX = face.x + face.width / 2;
+  const centreY = face.y + face.height / 2;
+  const patch = clampRegion({ left: centreX - size / 2, top: centreY - size / 2, width: size, height: size }, width, height);
+  patch.left = Math.max(0, Math.min(width - size, patch.left));
+  patch.top = Math.max(0, Math.min(height - size, patch.top));
+  patch.width = patch.height = size;
+
+  const overview = await loadGray(imagePath, undefined, Math.min(ANALYSIS_WIDTH, width));
+  const scale = width / overview.width;
+
+  const signals: Record<PresentationAttackReason, number> = {
+    screen_moire: size <= Math.min(width, height) ? moireSignal(await loadGray(imagePath, patch)) : 0,
+    print_texture: await printSignal(imagePath, clampRegion({ left: face.x, top: face.y, width: face.width, height: face.height }, width, height)),
+    device_bezel: bezelSignal(overview, face, scale),
+    flat_depth: flatnessSignal(overview, face, scale),
+  };
+
+  // Noisy-OR: independent cues reinforce each other without any one being required
+  const reasons = (Object.keys(signals) as PresentationAttackReason[]).filter(reason => signals[reason] >= REASON_SIGNAL);
+  const genuine = (Object.keys(signals) as PresentationAttackReason[])
+    .reduce((product, reason) => product * (1 - SIGNAL_WEIGHTS[reason] * signals[reason]), 1);
+
+  return {
+    spoofScore: Math.round(100 * (1 - genuine)),
+    reasons,
+    signals: Object.fromEntries(Object.entries(signals).map(([reason, value]) => [reason, Math.round(value * 100) / 100])) as Record<PresentationAttackReason, number>,
+  };
+}
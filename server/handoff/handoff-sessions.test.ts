@@ -0,0 +1,155 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { HandoffUpdate } from "@shared/schema";
+import { HandoffError, HandoffSessionStore } from "./handoff-sessions";
+
+// Stores with short, fixed lifetimes; times are passed in rather than waited for
+
+const TOKEN_TTL_MS = 5 * 60 * 1000;
+const SESSION_TTL_MS = 30 * 60 * 1000;
+
+function createStore(): HandoffSessionStore {
+  return new HandoffSessionStore({ tokenTtlMs: TOKEN_TTL_MS, sessionTtlMs: SESSION_TTL_MS });
+}
+
+function later(from: Date, ms: number): Date {
+  return new Date(from.getTime() + ms);
+}
+
+function failsWith(code: string) {
+  return (error: unknown) => error instanceof HandoffError && error.code === code;
+}
+
+function recordUpdates(store: HandoffSessionStore, id: string): HandoffUpdate[] {
+  const updates: HandoffUpdate[] = [];
+  store.subscribe(id, update => updates.push(update));
+  return updates;
+}
+
+test('creates sessions with distinct tokens that start out waiting', () => {
+  const store = createStore();
+  const first = store.create();
+  const second = store.create();
+
+  assert.notEqual(first.id, second.id);
+  assert.notEqual(first.token, second.token);
+  assert.equal(first.step, 'waiting');
+  assert.equal(first.redeemedAt, null);
+});
+
+test('redeems a token once and refuses it after that', () => {
+  const store = createStore();
+  const now = new Date();
+  const session = store.create(null, now);
+
+  const redeemed = store.redeem(session.token, later(now, 1000));
+  assert.equal(redeemed.id, session.id);
+  assert.equal(redeemed.step, 'connected');
+
+  assert.throws(() => store.redeem(session.token, later(now, 2000)), failsWith('handoff_token_used'));
+});
+
+test('starts the phone at the selfie when the desktop already uploaded the document', () => {
+  const store = createStore();
+  const session = store.create(42);
+  assert.equal(store.redeem(session.token).step, 'document_uploaded');
+});
+
+test('refuses a token scanned after it expires', () => {
+  const store = createStore();
+  const now = new Date();
+  const session = store.create(null, now);
+
+  assert.throws(() => store.redeem(session.token, later(now, TOKEN_TTL_MS + 1)), failsWith('handoff_token_expired'));
+  // Still usable right up to the limit
+  assert.equal(store.redeem(session.token, later(now, TOKEN_TTL_MS)).step, 'connected');
+});
+
+test('refuses unknown tokens and tokens of sessions that have ended', () => {
+  const store = createStore();
+  const now = new Date();
+  const session = store.create(null, now);
+
+  assert.throws(() => store.redeem('not-a-token', now), failsWith('handoff_token_invalid'));
+  assert.throws(() => store.redeem(session.token.slice(1), now), failsWith('handoff_token_invalid'));
+  assert.throws(() => store.redeem(session.token, later(now, SESSION_TTL_MS + 1)), failsWith('handoff_token_invalid'));
+});
+
+test('reports unknown and expired sessions as not found', () => {
+  const store = createStore();
+  const now = new Date();
+  const session = store.create(null, now);
+
+  assert.throws(() => store.get('no-such-session', now), failsWith('handoff_not_found'));
+  assert.throws(() => store.get(session.id, later(now, SESSION_TTL_MS + 1)), failsWith('handoff_not_found'));
+  assert.throws(() => store.subscribe('no-such-session', () => undefined), failsWith('handoff_not_found'));
+  assert.throws(() => store.attachVerification('no-such-session', 1), failsWith('handoff_not_found'));
+  assert.equal(store.get(session.id, now).id, session.id);
+});
+
+test('removes expired sessions when a new one is created', () => {
+  const store = createStore();
+  const now = new Date();
+  const old = store.create(null, now);
+  store.create(null, later(now, SESSION_TTL_MS + 1));
+
+  // Gone for good, not only hidden by the expiry check
+  assert.throws(() => store.get(old.id, now), failsWith('handoff_not_found'));
+});
+
+test('only moves steps forward and pushes each one to subscribers', () => {
+  const store = createStore();
+  const session = store.create();
+  const updates = recordUpdates(store, session.id);
+
+  store.redeem(session.token);
+  store.attachVerification(session.id, 7);
+  store.notify(7, 'selfie_uploaded');
+  store.notify(7, 'liveness_passed');
+  // Late or repeated updates from the other device are ignored
+  store.notify(7, 'document_uploaded');
+  store.notify(7, 'liveness_passed');
+  store.notify(7, 'completed');
+
+  assert.deepEqual(updates.map(update => update.step), ['connected', 'document_uploaded', 'selfie_uploaded', 'liveness_passed', 'completed']);
+  assert.equal(updates[1].verificationId, 7);
+  assert.equal(store.get(session.id).step, 'completed');
+});
+
+test('steps back to the selfie when it is retaken after liveness passed', () => {
+  const store = createStore();
+  const session = store.create(9);
+  store.redeem(session.token);
+  store.notify(9, 'selfie_uploaded');
+  store.notify(9, 'liveness_passed');
+
+  store.notify(9, 'selfie_uploaded');
+  assert.equal(store.get(session.id).step, 'selfie_uploaded');
+
+  // A retake before liveness passed is not a step back
+  store.notify(9, 'selfie_uploaded');
+  assert.equal(store.get(session.id).step, 'selfie_uploaded');
+});
+
+test('ignores progress for sessions whose token has not been redeemed', () => {
+  const store = createStore();
+  const session = store.create(5);
+  const updates = recordUpdates(store, session.id);
+
+  store.notify(5, 'selfie_uploaded');
+  assert.equal(store.get(session.id).step, 'waiting');
+  assert.deepEqual(updates, []);
+});
+
+test('stops pushing updates once a subscriber unsubscribes', () => {
+  const store = createStore();
+  const session = store.create();
+  const updates: HandoffUpdate[] = [];
+  const unsubscribe = store.subscribe(session.id, update => updates.push(update));
+
+  store.redeem(session.token);
+  unsubscribe();
+  store.attachVerification(session.id, 3);
+
+  assert.deepEqual(updates.map(update => update.step), ['connected']);
+});
@@ -0,0 +1,150 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import { handoffSteps, type HandoffStep, type HandoffUpdate } from "@shared/schema";
+
+// Cross-device handoff. A desktop without a usable camera opens a session and
+// shows its token as a QR code; the phone that scans it redeems the token and
+// carries on the same verification. Every step the phone finishes is pushed to
+// the desktop. Sessions are kept in memory, like the rate limiters: a restart
+// only means scanning a fresh code.
+
+export interface HandoffSession {
+  id: string; // Known to both devices; identifies the session after the token is spent
+  token: string; // Single use, carried in the QR code
+  tokenExpiresAt: Date;
+  redeemedAt: Date | null;
+  expiresAt: Date;
+  verificationId: number | null;
+  step: HandoffStep;
+}
+
+export type HandoffErrorCode = 'handoff_not_found' | 'handoff_token_invalid' | 'handoff_token_expired' | 'handoff_token_used';
+
+export class HandoffError extends Error {
+  code: HandoffErrorCode;
+
+  constructor(message: string, code: HandoffErrorCode) {
+    super(message);
+    this.name = 'HandoffError';
+    this.code = code;
+  }
+}
+
+export interface HandoffStoreOptions {
+  tokenTtlMs: number; // How long the QR code can be scanned
+  sessionTtlMs: number; // How long the phone has to finish once connected
+}
+
+export class HandoffSessionStore {
+  private options: HandoffStoreOptions;
+  private sessions: Map<string, HandoffSession>;
+  private events: EventEmitter;
+
+  constructor(options: HandoffStoreOptions) {
+    this.options = options;
+    this.sessions = new Map();
+    this.events = new EventEmitter();
+    // One listener per open desktop page
+    this.events.setMaxListeners(0);
+  }
+
+  // `verificationId` is set when the desktop has already uploaded the document
+  create(verificationId: number | null = null, now: Date = new Date()): HandoffSession {
+    this.removeExpired(now);
+    const session: HandoffSession = {
+      id: crypto.randomUUID(),
+      token: crypto.randomBytes(24).toString('base64url'),
+      tokenExpiresAt: new Date(now.getTime() + this.options.tokenTtlMs),
+      redeemedAt: null,
+      expiresAt: new Date(now.getTime() + this.options.sessionTtlMs),
+      verificationId,
+      step: 'waiting',
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  get(id: string, now: Date = new Date()): HandoffSession {
+    const session = this.sessions.get(id);
+    if (!session || now > session.expiresAt) {
+      throw new HandoffError('Handoff session not found or expired', 'handoff_not_found');
+    }
+    return session;
+  }
+
+  redeem(token: string, now: Date = new Date()): HandoffSession {
+    const session = Array.from(this.sessions.values()).find(candidate => safeEqual(candidate.token, token));
+    if (!session || now > session.expiresAt) {
+      throw new HandoffError('This link is not valid. Scan the code on your computer again.', 'handoff_token_invalid');
+    }
+    if (session.redeemedAt) {
+      throw new HandoffError('This link has already been used. Show a new code on your computer.', 'handoff_token_used');
+    }
+    if (now > session.tokenExpiresAt) {
+      throw new HandoffError('This link has expired. Show a new code on your computer.', 'handoff_token_expired');
+    }
+
+    session.redeemedAt = now;
+    // A document already uploaded on the desktop leaves only the selfie for the phone
+    this.advance(session, session.verificationId ? 'document_uploaded' : 'connected');
+    return session;
+  }
+
+  // Links the verification the phone started, so later steps can find the session
+  attachVerification(id: string, verificationId: number): void {
+    const session = this.get(id);
+    session.verificationId = verificationId;
+    this.advance(session, 'document_uploaded');
+  }
+
+  // Called as a verification moves on; verifications without a handoff are ignored
+  notify(verificationId: number, step: HandoffStep): void {
+    const now = new Date();
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.verificationId === verificationId && session.redeemedAt && now <= session.expiresAt) {
+        this.advance(session, step);
+      }
+    }
+  }
+
+  // Returns a function that stops the updates
+  subscribe(id: string, listener: (update: HandoffUpdate) => void): () => void {
+    this.get(id);
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  toUpdate(session: HandoffSession): HandoffUpdate {
+    return { step: session.step, verificationId: session.verificationId };
+  }
+
+  // Steps only move forward, except a retaken selfie, which needs a new liveness check
+  private advance(session: HandoffSession, step: HandoffStep): void {
+    const retake = step === 'selfie_uploaded' && session.step === 'liveness_passed';
+    if (!retake && handoffSteps.indexOf(step) <= handoffSteps.indexOf(session.step)) return;
+    session.step = step;
+    this.events.emit(session.id, this.toUpdate(session));
+  }
+
+  private removeExpired(now: Date): void {
+    for (const session of Array.from(this.sessions.values())) {
+      if (now > session.expiresAt) {
+        this.sessions.delete(session.id);
+        this.events.removeAllListeners(session.id);
+      }
+    }
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export const handoffSessions = new HandoffSessionStore({
+  tokenTtlMs: parseInt(process.env.HANDOFF_TOKEN_TTL_SECONDS || '300') * 1000,
+  sessionTtlMs: parseInt(process.env.HANDOFF_SESSION_TTL_SECONDS || '1800') * 1000,
+});
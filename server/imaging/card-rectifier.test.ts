@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { detectCardQuad, ID1_ASPECT_RATIO, prefersUpsideDown, type Point } from "./card-rectifier";
+
+// Synthetic greyscale photos at the analysis size: a light card drawn as a filled
+// quadrilateral on a dark table
+
+const WIDTH = 400;
+const HEIGHT = 300;
+// Edge detection and dilation pull the outline a few pixels inside the card
+const TOLERANCE = 6;
+
+function photo(corners: Point[] | null): Uint8Array {
+  const gray = new Uint8Array(WIDTH * HEIGHT).fill(40);
+  if (!corners) return gray;
+
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      // Inside when on the same side of every edge of the clockwise outline
+      const inside = corners.every((a, i) => {
+        const b = corners[(i + 1) % corners.length];
+        return (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x) >= 0;
+      });
+      if (inside) gray[y * WIDTH + x] = 220;
+    }
+  }
+  return gray;
+}
+
+// TL, TR, BR, BL of a card `width` wide, centred on the photo and turned by `degrees`
+function card(width: number, height: number, degrees = 0): Point[] {
+  const angle = degrees * Math.PI / 180;
+  const corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => ({ x: sx * width / 2, y: sy * height / 2 }));
+  return corners.map(({ x, y }) => ({
+    x: WIDTH / 2 + x * Math.cos(angle) - y * Math.sin(angle),
+    y: HEIGHT / 2 + x * Math.sin(angle) + y * Math.cos(angle),
+  }));
+}
+
+function assertCorners(actual: Point[] | null, expected: Point[]) {
+  assert.ok(actual, 'a card was detected');
+  assert.equal(actual.length, 4);
+  actual.forEach((corner, i) => {
+    const distance = Math.hypot(corner.x - expected[i].x, corner.y - expected[i].y);
+    assert.ok(distance <= TOLERANCE, `corner ${i} at (${corner.x}, ${corner.y}) is ${distance.toFixed(1)}px from (${expected[i].x.toFixed(1)}, ${expected[i].y.toFixed(1)})`);
+  });
+}
+
+test('finds the corners of a card lying straight, top left first and clockwise', () => {
+  const corners = card(280, 280 / ID1_ASPECT_RATIO);
+  assertCorners(detectCardQuad(photo(corners), WIDTH, HEIGHT), corners);
+});
+
+test('finds the corners of a card turned on the table', () => {
+  const clockwise = card(260, 260 / ID1_ASPECT_RATIO, 12);
+  assertCorners(detectCardQuad(photo(clockwise), WIDTH, HEIGHT), clockwise);
+
+  const anticlockwise = card(260, 260 / ID1_ASPECT_RATIO, -20);
+  assertCorners(detectCardQuad(photo(anticlockwise), WIDTH, HEIGHT), anticlockwise);
+});
+
+test('puts a long side on top when the card stands on its short edge', () => {
+  const [tl, tr, br, bl] = card(150, 150 * ID1_ASPECT_RATIO);
+  // The left side becomes the top, so the card is read turned a quarter
+  assertCorners(detectCardQuad(photo([tl, tr, br, bl]), WIDTH, HEIGHT), [bl, tl, tr, br]);
+});
+
+test('rejects shapes too small or too square to be a card', () => {
+  // About 10% of the photo
+  assert.equal(detectCardQuad(photo(card(130, 130 / ID1_ASPECT_RATIO)), WIDTH, HEIGHT), null);
+  assert.equal(detectCardQuad(photo(card(220, 220)), WIDTH, HEIGHT), null);
+  // A strip far longer than ID-1
+  assert.equal(detectCardQuad(photo(card(360, 120)), WIDTH, HEIGHT), null);
+});
+
+test('finds nothing in a photo without a card', () => {
+  assert.equal(detectCardQuad(photo(null), WIDTH, HEIGHT), null);
+});
+
+test('turns the card over only when the upside-down read is clearly better', () => {
+  assert.equal(prefersUpsideDown(60, 71), true);
+  assert.equal(prefersUpsideDown(60, 70), false);
+  assert.equal(prefersUpsideDown(60, 65), false);
+  assert.equal(prefersUpsideDown(80, 40), false);
+  assert.equal(prefersUpsideDown(0, 11), true);
+});
@@ -0,0 +1,413 @@
+import sharp from "sharp";
+import { ocrWorkerPool } from "../ocr/worker-pool";
+import { languageAssets } from "../ocr/language-assets";
+
+// Finds an ID card in a photo, warps it into a flat ID-1 rectangle and turns
+// it upright. Everything downstream (OCR passes, face comparison) reads the
+// rectified image. When no card outline is found, the EXIF-rotated photo is
+// used unchanged so a close-up shot still works.
+
+export type Point = { x: number; y: number };
+
+export interface RectificationResult {
+  path: string;
+  cardDetected: boolean;
+  corners?: Point[]; // TL, TR, BR, BL in original image pixels
+  rotation: 0 | 180;
+}
+
+// ISO/IEC 7810 ID-1: 85.60mm x 53.98mm
+export const ID1_ASPECT_RATIO = 85.6 / 53.98;
+
+const ANALYSIS_WIDTH = 640;
+const OUTPUT_WIDTH = 1200;
+const OUTPUT_HEIGHT = Math.round(OUTPUT_WIDTH / ID1_ASPECT_RATIO);
+const MIN_CARD_AREA_RATIO = 0.15;
+const MIN_SIDE_RATIO = 1.2;
+const MAX_SIDE_RATIO = 2.1;
+const DILATE_ITERATIONS = 2;
+// Flipping only when the upside-down read is clearly better avoids thrashing on noisy images
+const ORIENTATION_CONFIDENCE_MARGIN = 10;
+const ORIENTATION_PROBE_WIDTH = 800;
+// Roughly the resolution of a 1200px-wide ID-1 card; Tesseract warns on missing density
+const OUTPUT_DPI = 300;
+
+function toGrayscale(data: Buffer, width: number, height: number, channels: number): Uint8Array {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += channels) {
+    gray[i] = (data[p] * 299 + data[p + 1] * 587 + data[p + 2] * 114) / 1000;
+  }
+  return gray;
+}
+
+function sobelEdges(gray: Uint8Array, width: number, height: number): Uint8Array {
+  const magnitude = new Float32Array(width * height);
+  let sum = 0;
+  let sumSq = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = -gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1]
+        + gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1];
+      const gy = -gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1]
+        + gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1];
+      const m = Math.sqrt(gx * gx + gy * gy);
+      magnitude[i] = m;
+      sum += m;
+      sumSq += m * m;
+    }
+  }
+
+  const count = width * height;
+  const mean = sum / count;
+  const std = Math.sqrt(Math.max(0, sumSq / count - mean * mean));
+  const threshold = Math.max(40, mean + std);
+
+  const edges = new Uint8Array(count);
+  for (let i = 0; i < count; i++) {
+    edges[i] = magnitude[i] >= threshold ? 1 : 0;
+  }
+  return edges;
+}
+
+function dilate(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const out = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let on = 0;
+      for (let dy = -1; dy <= 1 && !on; dy++) {
+        for (let dx = -1; dx <= 1 && !on; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height && mask[ny * width + nx]) on = 1;
+        }
+      }
+      out[y * width + x] = on;
+    }
+  }
+  return out;
+}
+
+// Flood-fills the background from the image border through non-edge pixels. The
+// largest region it cannot reach is enclosed by an outline; text edges split a
+// card's interior into pieces, so the returned region is everything not
+// background that is connected to that largest enclosed piece.
+function cardRegion(edges: Uint8Array, width: number, height: number): Point[] {
+  const state = new Int32Array(width * height); // 0 = unvisited, -1 = background, >0 = region id
+  const stack: number[] = [];
+
+  const flood = (seeds: number[], label: number, collect?: Point[]) => {
+    stack.push(...seeds);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      if (state[i] !== 0 || edges[i]) continue;
+      state[i] = label;
+      const x = i % width;
+      const y = (i - x) / width;
+      collect?.push({ x, y });
+      if (x > 0) stack.push(i - 1);
+      if (x < width - 1) stack.push(i + 1);
+      if (y > 0) stack.push(i - width);
+      if (y < height - 1) stack.push(i + width);
+    }
+  };
+
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+  for (let y = 0; y < height; y++) border.push(y * width, y * width + width - 1);
+  flood(border, -1);
+
+  let seed = -1;
+  let bestSize = 0;
+  let label = 1;
+  for (let i = 0; i < state.length; i++) {
+    if (state[i] !== 0 || edges[i]) continue;
+    const region: Point[] = [];
+    flood([i], label++, region);
+    if (region.length > bestSize) {
+      bestSize = region.length;
+      seed = i;
+    }
+  }
+  if (seed === -1) return [];
+
+  const visited = new Uint8Array(width * height);
+  const region: Point[] = [];
+  stack.push(seed);
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    if (visited[i] || state[i] === -1) continue;
+    visited[i] = 1;
+    const x = i % width;
+    const y = (i - x) / width;
+    region.push({ x, y });
+    if (x > 0) stack.push(i - 1);
+    if (x < width - 1) stack.push(i + 1);
+    if (y > 0) stack.push(i - width);
+    if (y < height - 1) stack.push(i + width);
+  }
+  return region;
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+// Andrew's monotone chain
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const lower: Point[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs(cross(a, b, p)) / length;
+}
+
+function simplify(points: Point[], epsilon: number): Point[] {
+  if (points.length < 3) return points;
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], points[0], points[points.length - 1]);
+    if (d > maxDistance) {
+      maxDistance = d;
+      index = i;
+    }
+  }
+  if (maxDistance <= epsilon) return [points[0], points[points.length - 1]];
+  const left = simplify(points.slice(0, index + 1), epsilon);
+  const right = simplify(points.slice(index), epsilon);
+  return left.slice(0, -1).concat(right);
+}
+
+// Douglas-Peucker on the closed hull with a growing tolerance until four corners remain
+function approximateQuad(hull: Point[]): Point[] | null {
+  if (hull.length < 4) return null;
+
+  let perimeter = 0;
+  for (let i = 0; i < hull.length; i++) {
+    const next = hull[(i + 1) % hull.length];
+    perimeter += Math.hypot(next.x - hull[i].x, next.y - hull[i].y);
+  }
+
+  // Split the closed polygon at its two most distant vertices
+  let a = 0;
+  let b = 0;
+  let farthest = 0;
+  for (let i = 0; i < hull.length; i++) {
+    for (let j = i + 1; j < hull.length; j++) {
+      const d = Math.hypot(hull[i].x - hull[j].x, hull[i].y - hull[j].y);
+      if (d > farthest) {
+        farthest = d;
+        a = i;
+        b = j;
+      }
+    }
+  }
+  const firstHalf = hull.slice(a, b + 1);
+  const secondHalf = hull.slice(b).concat(hull.slice(0, a + 1));
+
+  for (let k = 0.01; k <= 0.1; k += 0.005) {
+    const epsilon = k * perimeter;
+    const polygon = simplify(firstHalf, epsilon).slice(0, -1).concat(simplify(secondHalf, epsilon).slice(0, -1));
+    if (polygon.length === 4) return polygon;
+    if (polygon.length < 4) return null;
+  }
+  return null;
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const next = points[(i + 1) % points.length];
+    area += points[i].x * next.y - next.x * points[i].y;
+  }
+  return Math.abs(area) / 2;
+}
+
+// Orders corners TL, TR, BR, BL, then rotates the order so the long side is on top
+function orderCorners(quad: Point[]): Point[] {
+  const cx = quad.reduce((sum, p) => sum + p.x, 0) / 4;
+  const cy = quad.reduce((sum, p) => sum + p.y, 0) / 4;
+  const clockwise = [...quad].sort((p, q) => Math.atan2(p.y - cy, p.x - cx) - Math.atan2(q.y - cy, q.x - cx));
+  const start = clockwise.reduce((best, p, i) => (p.x + p.y < clockwise[best].x + clockwise[best].y ? i : best), 0);
+  let ordered = clockwise.slice(start).concat(clockwise.slice(0, start));
+
+  const top = Math.hypot(ordered[1].x - ordered[0].x, ordered[1].y - ordered[0].y);
+  const side = Math.hypot(ordered[2].x - ordered[1].x, ordered[2].y - ordered[1].y);
+  if (side > top) {
+    // Card is standing on its short edge: treat the left side as the top
+    ordered = [ordered[3], ordered[0], ordered[1], ordered[2]];
+  }
+  return ordered;
+}
+
+function isPlausibleCard(quad: Point[], width: number, height: number): boolean {
+  if (polygonArea(quad) < MIN_CARD_AREA_RATIO * width * height) return false;
+
+  for (let i = 0; i < 4; i++) {
+    if (cross(quad[i], quad[(i + 1) % 4], quad[(i + 2) % 4]) <= 0) return false;
+  }
+
+  const top = Math.hypot(quad[1].x - quad[0].x, quad[1].y - quad[0].y);
+  const bottom = Math.hypot(quad[2].x - quad[3].x, quad[2].y - quad[3].y);
+  const left = Math.hypot(quad[3].x - quad[0].x, quad[3].y - quad[0].y);
+  const right = Math.hypot(quad[2].x - quad[1].x, quad[2].y - quad[1].y);
+  const ratio = (top + bottom) / (left + right);
+  return ratio >= MIN_SIDE_RATIO && ratio <= MAX_SIDE_RATIO;
+}
+
+export function detectCardQuad(gray: Uint8Array, width: number, height: number): Point[] | null {
+  let edges = sobelEdges(gray, width, height);
+  for (let i = 0; i < DILATE_ITERATIONS; i++) {
+    edges = dilate(edges, width, height);
+  }
+
+  const region = cardRegion(edges, width, height);
+  if (region.length === 0) return null;
+
+  const quad = approximateQuad(convexHull(region));
+  if (!quad) return null;
+
+  const ordered = orderCorners(quad);
+  return isPlausibleCard(ordered, width, height) ? ordered : null;
+}
+
+// Solves the 8-parameter homography mapping each `from` point onto the matching `to` point
+function computeHomography(from: Point[], to: Point[]): number[] {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < 9; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const h = a.map((row, i) => row[8] / row[i]);
+  return [...h, 1];
+}
+
+async function warpToRectangle(image: Buffer, corners: Point[]): Promise<Buffer> {
+  const { data, info } = await sharp(image).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+
+  const destination = [
+    { x: 0, y: 0 },
+    { x: OUTPUT_WIDTH - 1, y: 0 },
+    { x: OUTPUT_WIDTH - 1, y: OUTPUT_HEIGHT - 1 },
+    { x: 0, y: OUTPUT_HEIGHT - 1 },
+  ];
+  // Map output pixels back into the source so every output pixel is sampled once
+  const h = computeHomography(destination, corners);
+  const out = Buffer.alloc(OUTPUT_WIDTH * OUTPUT_HEIGHT * 3);
+
+  for (let y = 0; y < OUTPUT_HEIGHT; y++) {
+    for (let x = 0; x < OUTPUT_WIDTH; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const sx = Math.min(width - 1.001, Math.max(0, (h[0] * x + h[1] * y + h[2]) / w));
+      const sy = Math.min(height - 1.001, Math.max(0, (h[3] * x + h[4] * y + h[5]) / w));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const o = (y * OUTPUT_WIDTH + x) * 3;
+
+      for (let c = 0; c < 3; c++) {
+        const p00 = data[(y0 * width + x0) * channels + c];
+        const p10 = data[(y0 * width + x0 + 1) * channels + c];
+        const p01 = data[((y0 + 1) * width + x0) * channels + c];
+        const p11 = data[((y0 + 1) * width + x0 + 1) * channels + c];
+        out[o + c] = (p00 * (1 - fx) + p10 * fx) * (1 - fy) + (p01 * (1 - fx) + p11 * fx) * fy;
+      }
+    }
+  }
+
+  return sharp(out, { raw: { width: OUTPUT_WIDTH, height: OUTPUT_HEIGHT, channels: 3 } }).png().toBuffer();
+}
+
+// Flips only when reading the card upside down is clearly better than upright
+export function prefersUpsideDown(uprightConfidence: number, upsideDownConfidence: number): boolean {
+  return upsideDownConfidence > uprightConfidence + ORIENTATION_CONFIDENCE_MARGIN;
+}
+
+// Compares primary-language OCR confidence upright and upside down
+async function detectUpsideDown(image: Buffer): Promise<boolean> {
+  const probe = await sharp(image)
+    .resize(ORIENTATION_PROBE_WIDTH, null, { withoutEnlargement: true })
+    .greyscale()
+    .withMetadata({ density: OUTPUT_DPI })
+    .png()
+    .toBuffer();
+  const flipped = await sharp(probe).rotate(180).png().toBuffer();
+  const language = languageAssets.getPrimaryLanguage().code;
+
+  const [upright, upsideDown] = await Promise.all([
+    ocrWorkerPool.recognize(language, probe),
+    ocrWorkerPool.recognize(language, flipped),
+  ]);
+  return prefersUpsideDown(upright.data.confidence, upsideDown.data.confidence);
+}
+
+export async function rectifyDocumentImage(imagePath: string): Promise<RectificationResult> {
+  // Apply EXIF orientation first so all later coordinates refer to the upright photo
+  const oriented = await sharp(imagePath).rotate().toBuffer();
+  const metadata = await sharp(oriented).metadata();
+  const fullWidth = metadata.width || 0;
+  const fullHeight = metadata.height || 0;
+
+  const { data, info } = await sharp(oriented)
+    .resize(ANALYSIS_WIDTH, null, { withoutEnlargement: true })
+    .blur(1.2)
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const gray = toGrayscale(data, info.width, info.height, info.channels);
+  const quad = detectCardQuad(gray, info.width, info.height);
+
+  let corners: Point[] | undefined;
+  let rectified = oriented;
+  if (quad) {
+    const scale = fullWidth / info.width;
+    corners = quad.map(p => ({ x: p.x * scale, y: p.y * scale }));
+    rectified = await warpToRectangle(oriented, corners);
+  }
+
+  let rotation: 0 | 180 = 0;
+  if (await detectUpsideDown(rectified)) {
+    rectified = await sharp(rectified).rotate(180).toBuffer();
+    rotation = 180;
+  }
+
+  const outputPath = `${imagePath}_rectified.png`;
+  await sharp(rectified).withMetadata({ density: OUTPUT_DPI }).png().toFile(outputPath);
+
+  return { path: outputPath, cardDetected: !!quad, corners, rotation };
+}
@@ -0,0 +1,198 @@
+import sharp from "sharp";
+import type { LayoutBox, LayoutTemplate } from "../documents/layout-templates";
+
+// Finds the holder's printed photo on a document image and stores it as its own
+// image, so face comparison sees a face rather than the card's background. A
+// layout template's portrait box is used when the card was rectified; otherwise
+// the photo is located by searching for the densest patch of skin-toned,
+// textured pixels.
+
+export type PortraitMethod = 'template' | 'detected';
+
+export interface PortraitResult {
+  path: string;
+  method: PortraitMethod;
+  // Pixel rectangle of the crop in the source image
+  box: { left: number; top: number; width: number; height: number };
+}
+
+export interface PortraitOptions {
+  // Template the card was read with; its portrait box is only meaningful on a rectified card
+  template?: LayoutTemplate;
+}
+
+// The search runs on a small copy of the image
+const SEARCH_WIDTH = 320;
+const SEARCH_STEP = 2;
+
+// Face heights tried, as fractions of the image height. Card photos fill a third
+// to a half of the card; on a rendered A4 e-Aadhaar page the photo is far smaller.
+const FACE_HEIGHTS = [0.06, 0.08, 0.1, 0.13, 0.16, 0.2, 0.25, 0.3, 0.36];
+const FACE_ASPECT = 0.8; // width / height
+
+// A face window must be mostly skin and must not be a flat skin-coloured area
+const MIN_SKIN_FRACTION = 0.45;
+const MIN_LUMA_STDEV = 12;
+
+// Share of a template's portrait box that must be skin for the box to be trusted
+const MIN_TEMPLATE_SKIN_FRACTION = 0.1;
+
+// Grows a face window to a head-and-shoulders crop, like the printed photo
+const EXPAND_SIDES = 0.3;
+const EXPAND_ABOVE = 0.5;
+const EXPAND_BELOW = 0.3;
+
+// Crops are stored at a fixed height so every matcher input is the same scale
+const PORTRAIT_HEIGHT = 480;
+
+interface SkinMap {
+  width: number;
+  height: number;
+  // Summed-area tables, (width + 1) x (height + 1)
+  skin: Float64Array;
+  luma: Float64Array;
+  lumaSquared: Float64Array;
+}
+
+// Skin test in YCbCr, which separates skin chroma from lighting reasonably well
+function isSkin(r: number, g: number, b: number): boolean {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return y > 50 && cb >= 77 && cb <= 130 && cr >= 136 && cr <= 175;
+}
+
+async function buildSkinMap(imagePath: string): Promise<SkinMap> {
+  const { data, info } = await sharp(imagePath)
+    .resize(SEARCH_WIDTH, null, { withoutEnlargement: true })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height, channels } = info;
+  const stride = width + 1;
+  const skin = new Float64Array(stride * (height + 1));
+  const luma = new Float64Array(stride * (height + 1));
+  const lumaSquared = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * channels;
+      const [r, g, b] = channels >= 3 ? [data[i], data[i + 1], data[i + 2]] : [data[i], data[i], data[i]];
+      const l = 0.299 * r + 0.587 * g + 0.114 * b;
+      const at = (y + 1) * stride + (x + 1);
+      const above = y * stride + (x + 1);
+      const left = (y + 1) * stride + x;
+      const diagonal = y * stride + x;
+      skin[at] = (isSkin(r, g, b) ? 1 : 0) + skin[above] + skin[left] - skin[diagonal];
+      luma[at] = l + luma[above] + luma[left] - luma[diagonal];
+      lumaSquared[at] = l * l + lumaSquared[above] + lumaSquared[left] - lumaSquared[diagonal];
+    }
+  }
+
+  return { width, height, skin, luma, lumaSquared };
+}
+
+function areaSum(table: Float64Array, map: SkinMap, x: number, y: number, w: number, h: number): number {
+  const stride = map.width + 1;
+  return table[(y + h) * stride + (x + w)] - table[y * stride + (x + w)] - table[(y + h) * stride + x] + table[y * stride + x];
+}
+
+function skinFraction(map: SkinMap, x: number, y: number, w: number, h: number): number {
+  return areaSum(map.skin, map, x, y, w, h) / (w * h);
+}
+
+// The largest window that is still mostly skin and has facial texture
+function findFace(map: SkinMap): { x: number; y: number; width: number; height: number } | undefined {
+  let best: { x: number; y: number; width: number; height: number } | undefined;
+  let bestSkin = 0;
+
+  for (const fraction of FACE_HEIGHTS) {
+    const h = Math.round(fraction * map.height);
+    const w = Math.round(h * FACE_ASPECT);
+    if (h < 8 || w < 6 || w > map.width) continue;
+
+    for (let y = 0; y + h <= map.height; y += SEARCH_STEP) {
+      for (let x = 0; x + w <= map.width; x += SEARCH_STEP) {
+        const area = w * h;
+        const skin = areaSum(map.skin, map, x, y, w, h);
+        if (skin / area < MIN_SKIN_FRACTION || skin <= bestSkin) continue;
+
+        const mean = areaSum(map.luma, map, x, y, w, h) / area;
+        const variance = areaSum(map.lumaSquared, map, x, y, w, h) / area - mean * mean;
+        if (Math.sqrt(Math.max(0, variance)) < MIN_LUMA_STDEV) continue;
+
+        best = { x, y, width: w, height: h };
+        bestSkin = skin;
+      }
+    }
+  }
+
+  return best;
+}
+
+function clampBox(box: PortraitResult['box'], width: number, height: number): PortraitResult['box'] {
+  const left = Math.max(0, Math.min(width - 1, Math.round(box.left)));
+  const top = Math.max(0, Math.min(height - 1, Math.round(box.top)));
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(width - left, Math.round(box.width))),
+    height: Math.max(1, Math.min(height - top, Math.round(box.height))),
+  };
+}
+
+function templateBox(portrait: LayoutBox, width: number, height: number): PortraitResult['box'] {
+  return clampBox({
+    left: portrait.x * width,
+    top: portrait.y * height,
+    width: portrait.width * width,
+    height: portrait.height * height,
+  }, width, height);
+}
+
+// Expects an upright image: a rectified card photo or a rendered PDF page.
+// Returns undefined when no photo can be found; callers fall back to the whole document.
+export async function extractPortrait(imagePath: string, options: PortraitOptions = {}): Promise<PortraitResult | undefined> {
+  const { width = 0, height = 0 } = await sharp(imagePath).metadata();
+  if (width === 0 || height === 0) return undefined;
+
+  const map = await buildSkinMap(imagePath);
+  const scale = width / map.width;
+
+  // A template box that holds no skin at all means the card is not the design the template describes
+  let found: { method: PortraitMethod; box: PortraitResult['box'] } | undefined;
+  if (options.template?.portrait) {
+    const box = templateBox(options.template.portrait, width, height);
+    const x = Math.floor(box.left / scale);
+    const y = Math.floor(box.top / scale);
+    const w = Math.max(1, Math.min(map.width - x, Math.floor(box.width / scale)));
+    const h = Math.max(1, Math.min(map.height - y, Math.floor(box.height / scale)));
+    if (skinFraction(map, x, y, w, h) >= MIN_TEMPLATE_SKIN_FRACTION) {
+      found = { method: 'template', box };
+    }
+  }
+
+  if (!found) {
+    const face = findFace(map);
+    if (!face) return undefined;
+    found = {
+      method: 'detected',
+      box: clampBox({
+        left: (face.x - face.width * EXPAND_SIDES) * scale,
+        top: (face.y - face.height * EXPAND_ABOVE) * scale,
+        width: face.width * (1 + 2 * EXPAND_SIDES) * scale,
+        height: face.height * (1 + EXPAND_ABOVE + EXPAND_BELOW) * scale,
+      }, width, height),
+    };
+  }
+
+  const portraitPath = imagePath + '_portrait.png';
+  await sharp(imagePath)
+    .extract(found.box)
+    .resize(null, PORTRAIT_HEIGHT)
+    .png()
+    .toFile(portraitPath);
+
+  return { path: portraitPath, ...found };
+}
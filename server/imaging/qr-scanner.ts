@@ -0,0 +1,23 @@
+import sharp from "sharp";
+import jsQR from "jsqr";
+
+// Finds and decodes a QR code in a document photo. Secure QR codes are dense, so
+// the image is tried at a large size first and then smaller, where blur from the
+// camera can matter less than module size.
+
+const SCAN_WIDTHS = [2000, 1200];
+
+export async function scanQrCode(imagePath: string): Promise<string | undefined> {
+  for (const width of SCAN_WIDTHS) {
+    const { data, info } = await sharp(imagePath)
+      .rotate()
+      .resize(width, width, { fit: 'inside', withoutEnlargement: true })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const code = jsQR(new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), info.width, info.height);
+    if (code) return code.data;
+  }
+  return undefined;
+}
@@ -2,6 +2,13 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupSecurity } from "./security";
+import { ocrWorkerPool } from "./ocr/worker-pool";
+import { faceAnalyzer } from "./faces/face-analyzer";
+import { agePolicies } from "./policies/age-policies";
+import { languageAssets } from "./ocr/language-assets";
+import { layoutTemplates } from "./documents/layout-templates";
+import { secureQrVerifier } from "./documents/aadhaar-qr";
+import { offlineEkycVerifier } from "./documents/offline-ekyc";
 
 const app = express();
 
@@ -42,6 +49,29 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Fail fast if any bundled OCR language pack is missing or corrupt,
+  // then warm up OCR workers before accepting uploads
+  const languages = languageAssets.load();
+  log(`OCR languages verified: ${languages.map(pack => pack.code).join(", ")}`);
+  await ocrWorkerPool.start();
+  log("OCR worker pool started");
+  await faceAnalyzer.start();
+  log(`Face models loaded: ${faceAnalyzer.getModelVersion()}`);
+  // An invalid age policy file fails startup rather than falling back to a guess
+  log(`Age policies loaded: ${agePolicies.load().map(policy => policy.name).join(", ")} (default ${agePolicies.getDefaultPolicy().name})`);
+  log(`Layout templates loaded: ${layoutTemplates.load().map(template => template.id).join(", ") || "none"}`);
+  // A malformed certificate fails startup; a missing one only disables QR trust
+  if (secureQrVerifier.load()) {
+    log("Aadhaar Secure QR certificate loaded");
+  } else {
+    log(`No Aadhaar Secure QR certificate at ${secureQrVerifier.getCertificatePath()}; QR data will not override OCR`);
+  }
+  if (offlineEkycVerifier.load()) {
+    log("Aadhaar Offline e-KYC certificate loaded");
+  } else {
+    log(`No Aadhaar Offline e-KYC certificate at ${offlineEkycVerifier.getCertificatePath()}; e-KYC uploads are disabled`);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -72,4 +102,12 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  const shutdown = async () => {
+    server.close();
+    await ocrWorkerPool.shutdown();
+    process.exit(0);
+  };
+  process.on("SIGTERM", shutdown);
+  process.on("SIGINT", shutdown);
 })();
@@ -0,0 +1,121 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Page } from "tesseract.js";
+import { LOW_FIELD_CONFIDENCE, type FieldConfidence } from "@shared/schema";
+import { parseMrz } from "../documents/mrz";
+import { computeFieldConfidences, scoreValue } from "./field-confidence";
+import type { LayoutReading } from "./zone-reader";
+
+// Pages carry only the block/paragraph/line/word/symbol tree the scorer reads.
+// A word is [text, word confidence] with one symbol per character at the word's
+// confidence, or [text, word confidence, symbol confidences].
+
+type FakeWord = [string, number, number[]?];
+
+function page(...lines: FakeWord[][]): Page {
+  return {
+    blocks: [{
+      paragraphs: [{
+        lines: lines.map(words => ({
+          words: words.map(([text, confidence, symbols]) => ({
+            text,
+            confidence,
+            symbols: symbols ? [...text].map((char, i) => ({ text: char, confidence: symbols[i] })) : [],
+          })),
+        })),
+      }],
+    }],
+  } as unknown as Page;
+}
+
+function scored(confidence: number, minSymbolConfidence: number, source: FieldConfidence['source']): FieldConfidence {
+  return { confidence, minSymbolConfidence, source, lowConfidence: confidence < LOW_FIELD_CONFIDENCE };
+}
+
+test('averages the confidences of the characters that make up the value', () => {
+  const pages = [page([['PAN', 95], ['ABCPE1234F', 90, [90, 90, 90, 90, 90, 90, 90, 40, 90, 90]]])];
+
+  assert.deepEqual(scoreValue(pages, 'ABCPE1234F', 'page'), scored(85, 40, 'page'));
+});
+
+test('caps each symbol at the confidence of its word', () => {
+  const pages = [page([['ABCPE1234F', 50, [99, 99, 99, 99, 99, 99, 99, 99, 99, 99]]])];
+
+  assert.deepEqual(scoreValue(pages, 'ABCPE1234F', 'page'), scored(50, 50, 'page'));
+});
+
+test('uses the word confidence for words without symbols', () => {
+  assert.deepEqual(scoreValue([page([['DOB:', 92], ['15/08/1990', 72]])], '15/08/1990', 'page'), scored(72, 72, 'page'));
+});
+
+test('ignores case, spacing and punctuation when locating a value', () => {
+  const pages = [page([['2345', 80], ['6789', 80], ['0124', 50]])];
+
+  assert.deepEqual(scoreValue(pages, '234567890124', 'page'), scored(70, 50, 'page'));
+  assert.deepEqual(scoreValue([page([['asha', 88], ['verma.', 88]])], 'ASHA VERMA', 'page'), scored(88, 88, 'page'));
+});
+
+test('finds name tokens that were reordered or split across lines', () => {
+  const pages = [page([['VERMA', 70]], [['Father:', 95]], [['ASHA', 90]])];
+
+  assert.deepEqual(scoreValue(pages, 'ASHA VERMA', 'mrz'), scored(79, 70, 'mrz'));
+});
+
+test('does not match names by tokens shorter than three characters', () => {
+  const pages = [page([['ZAIN', 90]], [['AL', 90]])];
+
+  assert.equal(scoreValue(pages, 'AL ZAIN', 'page'), undefined);
+  assert.equal(scoreValue(pages, 'ZAIN', 'page')?.confidence, 90);
+  // A single token is not searched for on its own either
+  assert.equal(scoreValue([page([['ASHAVERMA', 90]])], 'ASHA-VERMAS', 'page'), undefined);
+});
+
+test('scores a value on the first page it appears on', () => {
+  const pages = [page([['Government', 90]]), page([['ABCPE1234F', 45]]), page([['ABCPE1234F', 95]])];
+
+  assert.equal(scoreValue(pages, 'ABCPE1234F', 'page')?.confidence, 45);
+  assert.equal(scoreValue(pages, 'ZZZZZ9999Z', 'page'), undefined);
+  assert.equal(scoreValue([{ blocks: null } as unknown as Page], 'ABCPE1234F', 'page'), undefined);
+});
+
+test('flags averages below the low-confidence threshold', () => {
+  assert.equal(scoreValue([page([['ABCPE1234F', 59]])], 'ABCPE1234F', 'page')?.lowConfidence, true);
+  assert.equal(scoreValue([page([['ABCPE1234F', 60]])], 'ABCPE1234F', 'page')?.lowConfidence, false);
+});
+
+test('keeps the zone score for values read from a layout zone', () => {
+  const zoneScore = scored(97, 94, 'zone');
+  const layout = {
+    templateId: 'pan-card',
+    zones: [],
+    fields: { name: 'ASHA VERMA', documentNumber: 'ABCPE1234F' },
+    fieldConfidence: { name: zoneScore },
+  } as LayoutReading;
+  const pages = [page([['ASHA', 40], ['VERMA', 40]], [['ABCPE1234F', 80]])];
+
+  const confidences = computeFieldConfidences({ name: 'ASHA VERMA', documentNumber: 'ABCPE1234F' }, pages, [layout]);
+  assert.deepEqual(confidences.name, zoneScore);
+  // Read by the zone but not scored there: located on the page instead
+  assert.deepEqual(confidences.documentNumber, scored(80, 80, 'page'));
+
+  // The zone read a different value from the one that was kept
+  const differs = computeFieldConfidences({ name: 'ASHA VERMA' }, pages, [{ ...layout, fields: { name: 'ASHA VERNA' } }]);
+  assert.deepEqual(differs.name, scored(40, 40, 'page'));
+});
+
+test('marks values taken from a valid MRZ and leaves values it cannot find unscored', () => {
+  const mrz = parseMrz('P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<\nL898902C36UTO7408122F1204159ZE184226B<<<<<10', new Date(2010, 0, 1, 12));
+  assert.equal(mrz?.valid, true);
+  const pages = [page(
+    [['P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<', 85]],
+    [['L898902C36UTO7408122F1204159ZE184226B<<<<<10', 75]],
+  )];
+
+  const confidences = computeFieldConfidences({ name: 'ANNA MARIA ERIKSSON', dob: '12/08/1974', documentNumber: 'L898902C3', mrz }, pages);
+
+  assert.equal(confidences.documentNumber?.source, 'mrz');
+  assert.equal(confidences.name?.source, 'mrz');
+  // Printed as 740812 in the MRZ
+  assert.equal(confidences.dob, undefined);
+  assert.equal(computeFieldConfidences({ documentNumber: 'L898902C3' }, pages).documentNumber?.source, 'page');
+});
@@ -0,0 +1,110 @@
+import type { Page } from "tesseract.js";
+import { confidenceFields, LOW_FIELD_CONFIDENCE, type FieldConfidence, type FieldConfidences } from "@shared/schema";
+import { mrzToFields, type MrzResult } from "../documents/mrz";
+import type { DocumentFields } from "../documents/types";
+import type { LayoutReading } from "./zone-reader";
+
+// Scores individual extracted values by finding their characters in Tesseract's
+// word/symbol output, rather than trusting the page-level confidence.
+
+interface ScoredChar {
+  char: string;
+  confidence: number;
+}
+
+// Name tokens can be split across lines or reordered (MRZ prints the surname first),
+// so names fall back to locating each token; short tokens would match anywhere.
+const MIN_TOKEN_LENGTH = 3;
+
+// The scored fields (name, DOB, document number) are normalised to Latin script by their parsers
+function normalise(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+// Flattens a page into its Latin letters and digits. Each character takes the lower of
+// its symbol and word confidence: LSTM symbols can score high inside a word the
+// recogniser was unsure about as a whole.
+function characterStream(page: Page): ScoredChar[] {
+  const stream: ScoredChar[] = [];
+  for (const block of page.blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          const symbols = word.symbols.length > 0 ? word.symbols : [{ text: word.text, confidence: word.confidence }];
+          for (const symbol of symbols) {
+            for (const char of normalise(symbol.text)) {
+              stream.push({ char, confidence: Math.min(symbol.confidence, word.confidence) });
+            }
+          }
+        }
+      }
+    }
+  }
+  return stream;
+}
+
+function locate(stream: ScoredChar[], text: string, target: string): number[] | undefined {
+  const index = text.indexOf(target);
+  return index < 0 ? undefined : stream.slice(index, index + target.length).map(c => c.confidence);
+}
+
+function locateValue(stream: ScoredChar[], value: string): number[] | undefined {
+  const text = stream.map(c => c.char).join('');
+  const whole = locate(stream, text, normalise(value));
+  if (whole) return whole;
+
+  const tokens = value.split(/[^A-Za-z0-9]+/).map(normalise).filter(Boolean);
+  if (tokens.length < 2 || tokens.some(token => token.length < MIN_TOKEN_LENGTH)) return undefined;
+
+  const confidences: number[] = [];
+  for (const token of tokens) {
+    const found = locate(stream, text, token);
+    if (!found) return undefined;
+    confidences.push(...found);
+  }
+  return confidences;
+}
+
+export function scoreValue(pages: Page[], value: string, source: FieldConfidence['source']): FieldConfidence | undefined {
+  for (const page of pages) {
+    const confidences = locateValue(characterStream(page), value);
+    if (!confidences || confidences.length === 0) continue;
+
+    const confidence = Math.round(confidences.reduce((sum, c) => sum + c, 0) / confidences.length);
+    return {
+      confidence,
+      minSymbolConfidence: Math.round(Math.min(...confidences)),
+      source,
+      lowConfidence: confidence < LOW_FIELD_CONFIDENCE,
+    };
+  }
+  return undefined;
+}
+
+// Values that came from a layout zone keep the zone's score; everything else is
+// located on the OCR pages it was extracted from. Values that cannot be found
+// (e.g. an MRZ date, printed as YYMMDD) are left unscored.
+export function computeFieldConfidences(
+  fields: DocumentFields & { mrz?: MrzResult },
+  pages: Page[],
+  layouts: LayoutReading[] = [],
+): FieldConfidences {
+  const result: FieldConfidences = {};
+  const mrzFields = fields.mrz?.valid ? mrzToFields(fields.mrz) : {};
+
+  for (const field of confidenceFields) {
+    const value = fields[field];
+    if (!value) continue;
+
+    const layout = layouts.find(reading => reading.fields[field] === value && reading.fieldConfidence[field]);
+    if (layout) {
+      result[field] = layout.fieldConfidence[field];
+      continue;
+    }
+
+    const scored = scoreValue(pages, value, mrzFields[field] === value ? 'mrz' : 'page');
+    if (scored) result[field] = scored;
+  }
+
+  return result;
+}
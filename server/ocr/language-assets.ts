@@ -0,0 +1,120 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+// Tesseract language packs are loaded only from a local directory so the
+// server never reaches out to the tesseract.js CDN. The directory holds a
+// languages.json manifest plus one <code>.traineddata file per language;
+// adding a language means dropping in its file and adding a manifest entry.
+
+export interface LanguagePack {
+  code: string; // Tesseract language code, e.g. "eng", "tam"
+  label: string; // Human-readable name reported as the OCR language
+  script: string;
+  sha256: string; // Checksum of <code>.traineddata
+  primary?: boolean; // The primary language also runs on the high-contrast preprocessing pass
+}
+
+interface LanguageManifest {
+  languages: LanguagePack[];
+}
+
+export class LanguageAssetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LanguageAssetError';
+  }
+}
+
+const MANIFEST_FILE = 'languages.json';
+
+export class LanguageAssetManager {
+  private directory: string;
+  private enabledCodes: string[] | null;
+  private packs: LanguagePack[];
+
+  constructor(directory: string, enabledCodes: string[] | null = null) {
+    this.directory = path.resolve(directory);
+    this.enabledCodes = enabledCodes;
+    this.packs = [];
+  }
+
+  // Reads the manifest and checks every enabled pack exists and matches its checksum.
+  // All problems are collected so a misconfigured deployment fails with one clear error.
+  load(): LanguagePack[] {
+    if (this.packs.length > 0) return this.packs;
+
+    const manifestPath = path.join(this.directory, MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) {
+      throw new LanguageAssetError(`OCR language manifest not found at ${manifestPath}`);
+    }
+
+    let manifest: LanguageManifest;
+    try {
+      manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    } catch (error) {
+      throw new LanguageAssetError(`OCR language manifest ${manifestPath} is not valid JSON`);
+    }
+
+    const packs = (manifest.languages || []).filter(
+      pack => !this.enabledCodes || this.enabledCodes.includes(pack.code),
+    );
+    const problems: string[] = [];
+
+    if (this.enabledCodes) {
+      for (const code of this.enabledCodes) {
+        if (!packs.some(pack => pack.code === code)) {
+          problems.push(`${code}: enabled but missing from ${MANIFEST_FILE}`);
+        }
+      }
+    }
+
+    for (const pack of packs) {
+      const file = `${pack.code}.traineddata`;
+      const filePath = path.join(this.directory, file);
+      if (!fs.existsSync(filePath)) {
+        problems.push(`${pack.code}: ${file} not found`);
+        continue;
+      }
+
+      const digest = crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+      if (digest !== pack.sha256.toLowerCase()) {
+        problems.push(`${pack.code}: ${file} checksum mismatch (expected ${pack.sha256}, got ${digest})`);
+      }
+    }
+
+    if (packs.length === 0) {
+      problems.push('no languages enabled');
+    }
+
+    if (problems.length > 0) {
+      throw new LanguageAssetError(`OCR language assets in ${this.directory} are invalid:\n  ${problems.join('\n  ')}`);
+    }
+
+    this.packs = packs;
+    return this.packs;
+  }
+
+  getLanguages(): LanguagePack[] {
+    return this.load();
+  }
+
+  getPrimaryLanguage(): LanguagePack {
+    const packs = this.load();
+    return packs.find(pack => pack.primary) || packs[0];
+  }
+
+  // Worker options that point tesseract.js at the verified local files. gzip and
+  // caching are off so it reads <code>.traineddata directly and never downloads.
+  getWorkerOptions(code: string): { langPath: string; gzip: boolean; cacheMethod: string } {
+    if (!this.load().some(pack => pack.code === code)) {
+      throw new LanguageAssetError(`OCR language '${code}' is not configured`);
+    }
+    return { langPath: this.directory, gzip: false, cacheMethod: 'none' };
+  }
+}
+
+export const languageAssets = new LanguageAssetManager(
+  process.env.OCR_LANG_DIR || path.resolve(process.cwd(), 'tessdata'),
+  process.env.OCR_LANGUAGES ? process.env.OCR_LANGUAGES.split(',').map(code => code.trim()).filter(Boolean) : null,
+);
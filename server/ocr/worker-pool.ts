@@ -0,0 +1,245 @@
+import { createWorker, PSM, type Worker, type RecognizeResult, type ImageLike, type RecognizeOptions, type OutputFormats } from "tesseract.js";
+import { languageAssets } from "./language-assets";
+
+// Long-lived Tesseract workers, one small pool per language. Requests queue
+// when every worker for a language is busy; a worker that errors or times out
+// is terminated and replaced so one bad image cannot wedge the pool.
+
+export interface WorkerPoolConfig {
+  // Defaults to every language pack enabled in the language asset manifest
+  languages?: string[];
+  workersPerLanguage: number;
+  maxQueueLength: number;
+  jobTimeoutMs: number;
+  // Workers are recycled after this many jobs to bound WASM memory growth
+  maxJobsPerWorker: number;
+}
+
+// Per-job Tesseract settings. Workers are shared, so these are reset to
+// JOB_PARAMETER_DEFAULTS once the job finishes.
+export interface JobParameters {
+  tessedit_pageseg_mode?: PSM;
+  tessedit_char_whitelist?: string;
+}
+
+export interface LanguagePoolStats {
+  language: string;
+  workers: number;
+  busy: number;
+  idle: number;
+  queued: number;
+  completed: number;
+  failed: number;
+  recycled: number;
+}
+
+export interface WorkerPoolStats {
+  started: boolean;
+  languages: LanguagePoolStats[];
+}
+
+export class OcrPoolBusyError extends Error {
+  constructor(language: string) {
+    super(`OCR queue for '${language}' is full`);
+    this.name = 'OcrPoolBusyError';
+  }
+}
+
+interface PooledWorker {
+  worker: Worker;
+  busy: boolean;
+  jobs: number;
+}
+
+interface Waiter {
+  resolve: (worker: PooledWorker) => void;
+  reject: (error: Error) => void;
+}
+
+interface LanguagePool {
+  language: string;
+  workers: PooledWorker[];
+  waiting: Waiter[];
+  completed: number;
+  failed: number;
+  recycled: number;
+}
+
+const JOB_PARAMETER_DEFAULTS: Required<JobParameters> = {
+  tessedit_pageseg_mode: PSM.SINGLE_BLOCK,
+  tessedit_char_whitelist: '',
+};
+
+const DEFAULT_CONFIG: WorkerPoolConfig = {
+  workersPerLanguage: parseInt(process.env.OCR_WORKERS_PER_LANGUAGE || '1'),
+  maxQueueLength: parseInt(process.env.OCR_MAX_QUEUE_LENGTH || '20'),
+  jobTimeoutMs: parseInt(process.env.OCR_JOB_TIMEOUT_MS || '60000'),
+  maxJobsPerWorker: parseInt(process.env.OCR_MAX_JOBS_PER_WORKER || '200'),
+};
+
+export class OcrWorkerPool {
+  private config: WorkerPoolConfig;
+  private pools: Map<string, LanguagePool>;
+  private starting: Promise<void> | null;
+  private started: boolean;
+
+  constructor(config: Partial<WorkerPoolConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.pools = new Map();
+    this.starting = null;
+    this.started = false;
+  }
+
+  async start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = (async () => {
+        const languages = this.config.languages || languageAssets.getLanguages().map(pack => pack.code);
+        for (const language of languages) {
+          const pool: LanguagePool = { language, workers: [], waiting: [], completed: 0, failed: 0, recycled: 0 };
+          for (let i = 0; i < this.config.workersPerLanguage; i++) {
+            pool.workers.push({ worker: await this.spawn(language), busy: false, jobs: 0 });
+          }
+          this.pools.set(language, pool);
+        }
+        this.started = true;
+      })().catch(error => {
+        // Allow a later call to retry a failed start
+        this.starting = null;
+        throw error;
+      });
+    }
+    return this.starting;
+  }
+
+  async recognize(
+    language: string,
+    image: ImageLike,
+    options?: Partial<RecognizeOptions>,
+    output?: Partial<OutputFormats>,
+    parameters?: JobParameters,
+  ): Promise<RecognizeResult> {
+    await this.start();
+
+    const pool = this.pools.get(language);
+    if (!pool) {
+      throw new Error(`No OCR workers configured for language '${language}'`);
+    }
+
+    const pooled = await this.acquire(pool);
+    try {
+      if (parameters) {
+        await pooled.worker.setParameters(parameters);
+      }
+      const result = await this.withTimeout(pooled.worker.recognize(image, options, output));
+      if (parameters) {
+        const keys = Object.keys(parameters) as (keyof JobParameters)[];
+        await pooled.worker.setParameters(Object.fromEntries(keys.map(key => [key, JOB_PARAMETER_DEFAULTS[key]])));
+      }
+      pool.completed++;
+      pooled.jobs++;
+      if (pooled.jobs >= this.config.maxJobsPerWorker) {
+        await this.recycle(pool, pooled);
+      }
+      return result;
+    } catch (error) {
+      pool.failed++;
+      await this.recycle(pool, pooled);
+      throw error;
+    } finally {
+      this.release(pool, pooled);
+    }
+  }
+
+  getStats(): WorkerPoolStats {
+    return {
+      started: this.started,
+      languages: Array.from(this.pools.values()).map(pool => {
+        const busy = pool.workers.filter(w => w.busy).length;
+        return {
+          language: pool.language,
+          workers: pool.workers.length,
+          busy,
+          idle: pool.workers.length - busy,
+          queued: pool.waiting.length,
+          completed: pool.completed,
+          failed: pool.failed,
+          recycled: pool.recycled,
+        };
+      }),
+    };
+  }
+
+  async shutdown(): Promise<void> {
+    const workers = Array.from(this.pools.values()).flatMap(pool => pool.workers);
+    this.pools.clear();
+    this.starting = null;
+    this.started = false;
+    await Promise.allSettled(workers.map(pooled => pooled.worker.terminate()));
+  }
+
+  private spawn(language: string): Promise<Worker> {
+    return createWorker(language, undefined, {
+      ...languageAssets.getWorkerOptions(language),
+      errorHandler: (error: unknown) => console.error(`OCR worker (${language}) error:`, error),
+    });
+  }
+
+  private acquire(pool: LanguagePool): Promise<PooledWorker> {
+    const idle = pool.workers.find(w => !w.busy);
+    if (idle) {
+      idle.busy = true;
+      return Promise.resolve(idle);
+    }
+
+    if (pool.waiting.length >= this.config.maxQueueLength) {
+      return Promise.reject(new OcrPoolBusyError(pool.language));
+    }
+
+    return new Promise((resolve, reject) => pool.waiting.push({ resolve, reject }));
+  }
+
+  // Hands the worker straight to the next queued request, if any
+  private release(pool: LanguagePool, pooled: PooledWorker): void {
+    const current = pool.workers.includes(pooled) ? pooled : undefined;
+    if (!current) return;
+
+    const next = pool.waiting.shift();
+    if (next) {
+      next.resolve(current);
+    } else {
+      current.busy = false;
+    }
+  }
+
+  // Replaces the worker in place so queued requests keep their slot
+  private async recycle(pool: LanguagePool, pooled: PooledWorker): Promise<void> {
+    const old = pooled.worker;
+    old.terminate().catch(() => undefined);
+    try {
+      pooled.worker = await this.spawn(pool.language);
+      pooled.jobs = 0;
+      pool.recycled++;
+    } catch (error) {
+      console.error(`Failed to replace OCR worker (${pool.language}):`, error);
+      pool.workers = pool.workers.filter(w => w !== pooled);
+      if (pool.workers.length === 0) {
+        pool.waiting.splice(0).forEach(waiter => waiter.reject(new Error(`No OCR workers available for '${pool.language}'`)));
+      }
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`OCR job exceeded ${this.config.jobTimeoutMs}ms`)),
+        this.config.jobTimeoutMs,
+      );
+      promise.then(
+        value => { clearTimeout(timer); resolve(value); },
+        error => { clearTimeout(timer); reject(error); },
+      );
+    });
+  }
+}
+
+export const ocrWorkerPool = new OcrWorkerPool();
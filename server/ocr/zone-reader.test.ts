@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { LayoutZone } from "../documents/layout-templates";
+import { matchZone, toFieldValue } from "./zone-reader";
+
+// Zone text as Tesseract returns it for a crop: lines split by newlines, stray
+// whitespace and noise left in
+
+const AS_OF = new Date(2024, 0, 1, 12);
+
+function zone(pattern: string, mode?: LayoutZone['mode']): LayoutZone {
+  return { name: 'zone', box: { x: 0, y: 0, width: 1, height: 1 }, script: 'Latin', pattern, mode };
+}
+
+test('returns the first capture group of the first matching line', () => {
+  const dob = zone('(\\d{2}/\\d{2}/\\d{4})');
+  assert.equal(matchZone(dob, 'DOB : 15/08/1990\n'), '15/08/1990');
+  assert.equal(matchZone(dob, '  \nIssued 01/01/2020\nDOB 15/08/1990'), '01/01/2020');
+});
+
+test('returns the whole match, trimmed, for patterns without a group', () => {
+  assert.equal(matchZone(zone('^\\S.*$'), '\n  आशा वर्मा  \n'), 'आशा वर्मा');
+});
+
+test('anchors line patterns to single lines', () => {
+  const name = zone('^([A-Z][A-Z .]+)$');
+  assert.equal(matchZone(name, '| 4\nASHA VERMA\n'), 'ASHA VERMA');
+  assert.equal(matchZone(name, 'asha verma 1990'), undefined);
+  assert.equal(matchZone(name, ''), undefined);
+});
+
+test('joins the lines of a block zone before matching', () => {
+  const address = zone('Address\\s*:?\\s*(.+?\\b[1-9]\\d{2}\\s?\\d{3})\\b', 'block');
+  const text = 'Address: D/O Ravi Verma,\n12 MG Road,\n\nPune 411038\nhelp@uidai.gov.in';
+
+  assert.equal(matchZone(address, text), 'D/O Ravi Verma, 12 MG Road, Pune 411038');
+  // Line by line, no single line holds both the label and the pincode
+  assert.equal(matchZone({ ...address, mode: 'line' }, text), undefined);
+});
+
+test('cleans names and reads gender words as the parsers do', () => {
+  assert.equal(toFieldValue('name', 'ASHA  VERMA|', 'pan', AS_OF), 'ASHA VERMA');
+  assert.equal(toFieldValue('fatherName', '1 7', 'pan', AS_OF), undefined);
+  assert.equal(toFieldValue('gender', 'Female', 'aadhaar', AS_OF), 'female');
+  assert.equal(toFieldValue('gender', 'F', 'aadhaar', AS_OF), undefined);
+});
+
+test('formats dates and drops ones that do not parse', () => {
+  assert.equal(toFieldValue('dob', '15-08-1990', 'aadhaar', AS_OF), '15/08/1990');
+  assert.equal(toFieldValue('dob', '31/02/1990', 'aadhaar', AS_OF), undefined);
+  assert.equal(toFieldValue('expiryDate', '14/08/2030', 'passport', AS_OF), '14/08/2030');
+});
+
+test('keeps years of birth between 1900 and the current year', () => {
+  assert.equal(toFieldValue('yearOfBirth', '1990', 'aadhaar', AS_OF), 1990);
+  assert.equal(toFieldValue('yearOfBirth', '2024', 'aadhaar', AS_OF), 2024);
+  assert.equal(toFieldValue('yearOfBirth', '2025', 'aadhaar', AS_OF), undefined);
+  assert.equal(toFieldValue('yearOfBirth', '1899', 'aadhaar', AS_OF), undefined);
+});
+
+test('validates document numbers with the parser for the document type', () => {
+  assert.equal(toFieldValue('aadhaarNumber', '2345 6789 0124', 'aadhaar', AS_OF), '234567890124');
+  // Fails the Verhoeff check digit
+  assert.equal(toFieldValue('aadhaarNumber', '2345 6789 0123', 'aadhaar', AS_OF), undefined);
+  assert.equal(toFieldValue('documentNumber', 'ABCPE1234F', 'pan', AS_OF), 'ABCPE1234F');
+  // No parser: spaces removed and upper-cased
+  assert.equal(toFieldValue('documentNumber', 'x12 345', 'id_card', AS_OF), 'X12345');
+});
+
+test('passes other fields through unchanged', () => {
+  assert.equal(toFieldValue('address', '12 MG Road, Pune 411038', 'aadhaar', AS_OF), '12 MG Road, Pune 411038');
+});
@@ -0,0 +1,164 @@
+import sharp from "sharp";
+import { PSM } from "tesseract.js";
+import { ocrWorkerPool } from "./worker-pool";
+import { languageAssets, type LanguagePack } from "./language-assets";
+import { layoutTemplates, type LayoutTemplate, type LayoutZone, type ZoneMode } from "../documents/layout-templates";
+import { getDocumentParser } from "../documents/registry";
+import { cleanName, extractGender } from "../documents/common";
+import { formatDate, normaliseDigits, parseDate } from "../documents/dates";
+import type { DocumentFields, DocumentSide, DocumentType } from "../documents/types";
+import { confidenceFields, type ConfidenceField, type FieldConfidences } from "@shared/schema";
+import { scoreValue } from "./field-confidence";
+
+// Reads each zone of a layout template from a rectified card image, one small
+// OCR job per zone using the language worker for the zone's script.
+
+export interface ZoneReading {
+  name: string;
+  field?: keyof DocumentFields;
+  language: string;
+  text: string;
+  value?: string;
+  confidence: number;
+  matched: boolean;
+}
+
+export interface LayoutReading {
+  templateId: string;
+  zones: ZoneReading[];
+  // Only zones whose pattern matched contribute a field
+  fields: DocumentFields;
+  fieldConfidence: FieldConfidences;
+}
+
+const ZONE_MODES: Record<ZoneMode, PSM> = {
+  line: PSM.SINGLE_LINE,
+  block: PSM.SINGLE_BLOCK,
+  word: PSM.SINGLE_WORD,
+};
+
+// Zones are small; upscaling gives Tesseract text at a height it reads reliably
+const ZONE_UPSCALE = 2;
+
+function languageForScript(script: string): LanguagePack {
+  const primary = languageAssets.getPrimaryLanguage();
+  if (primary.script === script) return primary;
+  const pack = languageAssets.getLanguages().find(candidate => candidate.script === script);
+  if (!pack) {
+    throw new Error(`No OCR language configured for script '${script}'`);
+  }
+  return pack;
+}
+
+async function cropZone(imagePath: string, zone: LayoutZone, width: number, height: number): Promise<Buffer> {
+  const left = Math.min(width - 1, Math.round(zone.box.x * width));
+  const top = Math.min(height - 1, Math.round(zone.box.y * height));
+  const zoneWidth = Math.max(1, Math.min(width - left, Math.round(zone.box.width * width)));
+  const zoneHeight = Math.max(1, Math.min(height - top, Math.round(zone.box.height * height)));
+
+  return sharp(imagePath)
+    .extract({ left, top, width: zoneWidth, height: zoneHeight })
+    .resize(zoneWidth * ZONE_UPSCALE, zoneHeight * ZONE_UPSCALE)
+    .greyscale()
+    .normalize()
+    .png()
+    .toBuffer();
+}
+
+export function matchZone(zone: LayoutZone, text: string): string | undefined {
+  const pattern = new RegExp(zone.pattern);
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  const candidates = zone.mode === 'block' ? [lines.join(' ')] : lines;
+
+  for (const candidate of candidates) {
+    const match = candidate.match(pattern);
+    if (match) return (match[1] ?? match[0]).trim();
+  }
+  return undefined;
+}
+
+// Applies the same normalisation and validation the document parsers use
+export function toFieldValue(field: keyof DocumentFields, value: string, documentType: DocumentType, asOf: Date): DocumentFields[keyof DocumentFields] {
+  switch (field) {
+    case 'name':
+    case 'fatherName':
+      return cleanName(value);
+    case 'gender':
+      return extractGender(value);
+    case 'dob':
+    case 'expiryDate': {
+      const date = parseDate(value, documentType);
+      return date ? formatDate(date) : undefined;
+    }
+    case 'yearOfBirth': {
+      const year = parseInt(value);
+      return year >= 1900 && year <= asOf.getFullYear() ? year : undefined;
+    }
+    case 'documentNumber':
+    case 'aadhaarNumber': {
+      const parser = getDocumentParser(documentType);
+      return parser ? parser.extractDocumentNumber(value) : value.replace(/\s+/g, '').toUpperCase();
+    }
+    default:
+      return value;
+  }
+}
+
+async function readTemplate(imagePath: string, template: LayoutTemplate, asOf: Date): Promise<LayoutReading> {
+  const { width = 0, height = 0 } = await sharp(imagePath).metadata();
+  const zones: ZoneReading[] = [];
+  const fields: DocumentFields = {};
+  const fieldConfidence: FieldConfidences = {};
+
+  // Zones run one after another so a template does not flood the shared queues
+  for (const zone of template.zones) {
+    const pack = languageForScript(zone.script);
+    const crop = await cropZone(imagePath, zone, width, height);
+    const { data } = await ocrWorkerPool.recognize(pack.code, crop, undefined, { blocks: true }, {
+      tessedit_pageseg_mode: ZONE_MODES[zone.mode || 'line'],
+      ...(zone.whitelist ? { tessedit_char_whitelist: zone.whitelist } : {}),
+    });
+
+    const value = matchZone(zone, normaliseDigits(data.text));
+    const fieldValue = value !== undefined && zone.field ? toFieldValue(zone.field, value, template.documentType, asOf) : undefined;
+    const matched = value !== undefined && (!zone.field || fieldValue !== undefined);
+    if (zone.field && fieldValue !== undefined) {
+      Object.assign(fields, { [zone.field]: fieldValue });
+      if ((confidenceFields as readonly string[]).includes(zone.field)) {
+        const scored = scoreValue([data], String(fieldValue), 'zone');
+        if (scored) fieldConfidence[zone.field as ConfidenceField] = scored;
+      }
+    }
+
+    zones.push({
+      name: zone.name,
+      field: zone.field,
+      language: pack.code,
+      text: data.text.trim(),
+      value,
+      confidence: Math.round(data.confidence),
+      matched,
+    });
+  }
+
+  return { templateId: template.id, zones, fields, fieldConfidence };
+}
+
+// Tries every template for the document type and keeps the one with the most
+// matching zones. Returns undefined when no template fits the card. `asOf` bounds
+// plausible years, as in the document parsers.
+export async function readLayoutZones(imagePath: string, documentType: DocumentType, side: DocumentSide, asOf: Date): Promise<LayoutReading | undefined> {
+  let best: LayoutReading | undefined;
+  let bestMatches = 0;
+
+  for (const template of layoutTemplates.getTemplates(documentType, side)) {
+    const reading = await readTemplate(imagePath, template, asOf);
+    const matches = reading.zones.filter(zone => zone.matched).length;
+    if (matches > bestMatches) {
+      best = reading;
+      bestMatches = matches;
+    }
+  }
+
+  return best;
+}
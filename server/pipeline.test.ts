@@ -0,0 +1,114 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { MemStorage } from "./storage";
+import { claimVerification, hashFile, hashVerificationInputs, releaseVerification, sameInputs } from "./pipeline";
+
+// Records live in a MemStorage; hashed inputs are small files in a throwaway directory
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-'));
+
+function inputFile(name: string, contents: string): string {
+  const filePath = path.join(workDir, name);
+  fs.writeFileSync(filePath, contents);
+  return filePath;
+}
+
+async function storedRecord(store: MemStorage, status: string) {
+  return store.createVerificationRecord({ documentPath: 'document.png', selfiePath: 'selfie.jpg', status });
+}
+
+test('lets only one of two simultaneous requests claim a verification', async () => {
+  const store = new MemStorage();
+  const record = await storedRecord(store, 'selfie_uploaded');
+
+  const claims = await Promise.all([claimVerification(store, record), claimVerification(store, record)]);
+
+  assert.deepEqual(claims.sort(), [false, true]);
+  assert.equal((await store.getVerificationRecord(record.id))?.status, 'processing');
+});
+
+test('refuses to claim a verification that is already processing', async () => {
+  const store = new MemStorage();
+  const processing = await storedRecord(store, 'processing');
+  assert.equal(await claimVerification(store, processing), false);
+
+  // Read before another request claimed it
+  const stale = await storedRecord(store, 'selfie_uploaded');
+  await store.setVerificationStatus(stale.id, 'selfie_uploaded', 'processing');
+  assert.equal(await claimVerification(store, stale), false);
+});
+
+test('gives a failed claim back so processing can be retried', async () => {
+  const store = new MemStorage();
+  const record = await storedRecord(store, 'selfie_uploaded');
+
+  assert.equal(await claimVerification(store, record), true);
+  await releaseVerification(store, record);
+  assert.equal((await store.getVerificationRecord(record.id))?.status, 'selfie_uploaded');
+
+  assert.equal(await claimVerification(store, record), true);
+});
+
+test('can reprocess a completed verification, and a release restores completed', async () => {
+  const store = new MemStorage();
+  const record = await storedRecord(store, 'completed');
+
+  assert.equal(await claimVerification(store, record), true);
+  await releaseVerification(store, record);
+  assert.equal((await store.getVerificationRecord(record.id))?.status, 'completed');
+});
+
+test('does not release a verification that is no longer processing', async () => {
+  const store = new MemStorage();
+  const record = await storedRecord(store, 'selfie_uploaded');
+
+  await claimVerification(store, record);
+  await store.updateVerificationRecord(record.id, { status: 'completed' });
+  await releaseVerification(store, record);
+
+  assert.equal((await store.getVerificationRecord(record.id))?.status, 'completed');
+});
+
+test('hashes the document and selfie, and the back and portrait only when stored', async () => {
+  const store = new MemStorage();
+  const documentPath = inputFile('document.png', 'front');
+  const selfiePath = inputFile('selfie.jpg', 'selfie');
+  const record = await store.createVerificationRecord({ documentPath, selfiePath, status: 'selfie_uploaded' });
+
+  const hashes = hashVerificationInputs(record);
+  assert.deepEqual(Object.keys(hashes), ['document', 'selfie']);
+  assert.equal(hashes.document, hashFile(documentPath));
+  assert.match(hashes.selfie, /^[0-9a-f]{64}$/);
+
+  const withPortrait = hashVerificationInputs({
+    ...record,
+    documentBackPath: inputFile('back.png', 'back'),
+    portraitPath: inputFile('portrait.png', 'portrait'),
+  });
+  assert.deepEqual(Object.keys(withPortrait), ['document', 'documentBack', 'selfie', 'portrait']);
+  assert.equal(withPortrait.portrait, hashFile(path.join(workDir, 'portrait.png')));
+});
+
+test('refuses to hash a verification whose files are gone', async () => {
+  const store = new MemStorage();
+  const record = await store.createVerificationRecord({
+    documentPath: inputFile('kept.png', 'front'),
+    selfiePath: path.join(workDir, 'deleted.jpg'),
+    status: 'selfie_uploaded',
+  });
+
+  assert.throws(() => hashVerificationInputs(record), { code: 'ENOENT' });
+});
+
+test('treats a new portrait crop as a change of input', () => {
+  const hashes = { document: 'd', selfie: 's', portrait: 'p' };
+
+  assert.equal(sameInputs(hashes, { ...hashes }), true);
+  assert.equal(sameInputs(hashes, { ...hashes, portrait: 'q' }), false);
+  assert.equal(sameInputs(hashes, { document: 'd', selfie: 's' }), false);
+  assert.equal(sameInputs(hashes, { ...hashes, selfie: 't' }), false);
+  assert.equal(sameInputs(hashes, { ...hashes, documentBack: 'b' }), false);
+});
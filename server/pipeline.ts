@@ -0,0 +1,40 @@
+import fs from "fs";
+import crypto from "crypto";
+import type { InputHashes, VerificationRecord } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Version of the verification checks as a whole. Bump it whenever a change can
+// alter a score or a decision for the same input files, so a stored result can be
+// traced to the code that produced it.
+export const PIPELINE_VERSION = '1.5.0';
+
+export function hashFile(filePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+// SHA-256 of each file the checks read; throws if one of them is gone
+export function hashVerificationInputs(record: VerificationRecord): InputHashes {
+  return {
+    document: hashFile(record.documentPath),
+    ...(record.documentBackPath ? { documentBack: hashFile(record.documentBackPath) } : {}),
+    selfie: hashFile(record.selfiePath),
+    // The face match reads the portrait instead of the whole document when there is one
+    ...(record.portraitPath ? { portrait: hashFile(record.portraitPath) } : {}),
+  };
+}
+
+export function sameInputs(a: InputHashes, b: InputHashes): boolean {
+  return a.document === b.document && a.documentBack === b.documentBack && a.selfie === b.selfie && a.portrait === b.portrait;
+}
+
+// Marks a verification as processing for this request. False when another request
+// already has it: with a handoff, both devices can start processing.
+export async function claimVerification(store: IStorage, record: VerificationRecord): Promise<boolean> {
+  if (record.status === 'processing') return false;
+  return !!await store.setVerificationStatus(record.id, record.status, 'processing');
+}
+
+// Gives a claimed verification back after a failure, so processing can be retried
+export async function releaseVerification(store: IStorage, record: VerificationRecord): Promise<void> {
+  await store.setVerificationStatus(record.id, 'processing', record.status);
+}
@@ -0,0 +1,140 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AgePolicyError, AgePolicyRegistry, applyAgePolicy, type FacialAge } from "./age-policies";
+
+// Decisions are checked against the policies shipped in policies/age-policies.json
+
+delete process.env.AGE_POLICY;
+
+const registry = new AgePolicyRegistry(path.resolve(process.cwd(), 'policies', 'age-policies.json'));
+
+function policy(name: string) {
+  const found = registry.getPolicy(name);
+  assert.ok(found, `policy ${name} is defined`);
+  return found;
+}
+
+function face(low: number, high: number): FacialAge {
+  return { age: Math.round((low + high) / 2), low, high };
+}
+
+const NO_FACE: FacialAge = { age: null, low: null, high: null };
+
+function codes(result: ReturnType<typeof applyAgePolicy>): string[] {
+  return result.decision.reasons.map(reason => reason.code);
+}
+
+function writePolicyFile(contents: unknown): string {
+  const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'age-policies-')), 'policies.json');
+  fs.writeFileSync(filePath, typeof contents === 'string' ? contents : JSON.stringify(contents));
+  return filePath;
+}
+
+test('looks up policies by name and falls back to the default without one', () => {
+  assert.equal(policy('min-21').minimumAge, 21);
+  assert.equal(registry.getPolicy(undefined)?.name, 'min-18');
+  assert.equal(registry.getPolicy(null)?.name, 'min-18');
+  assert.equal(registry.getDefaultPolicy().name, 'min-18');
+});
+
+test('returns nothing for unknown names', () => {
+  assert.equal(registry.getPolicy('min-99'), undefined);
+  assert.equal(registry.getPolicy('MIN-18'), undefined);
+});
+
+test('refuses a policy file with an undefined default, duplicates or invalid entries', () => {
+  const base = { name: 'min-18', minimumAge: 18, faceBuffer: 3, onDisagreement: 'fail', onMissingDob: 'fail' };
+
+  assert.throws(() => new AgePolicyRegistry(writePolicyFile({ defaultPolicy: 'min-21', policies: [base] })).load(), /default policy 'min-21'/);
+  assert.throws(() => new AgePolicyRegistry(writePolicyFile({ defaultPolicy: 'min-18', policies: [base, base] })).load(), /declared twice/);
+  assert.throws(() => new AgePolicyRegistry(writePolicyFile({ defaultPolicy: 'min-18', policies: [{ ...base, minimumAge: -1 }] })).load(), AgePolicyError);
+  assert.throws(() => new AgePolicyRegistry(writePolicyFile('{ not json')).load(), /not valid JSON/);
+});
+
+test('passes a document age at the minimum and fails one a year below', () => {
+  const adult = applyAgePolicy(policy('min-18'), 18, face(14, 22));
+  assert.equal(adult.decision.outcome, 'pass');
+  assert.equal(adult.decision.ageSource, 'document');
+  assert.equal(adult.finalAge, 18);
+
+  const minor = applyAgePolicy(policy('min-18'), 17, face(14, 22));
+  assert.equal(minor.decision.outcome, 'fail');
+  assert.ok(codes(minor).includes('document_age_below_minimum'));
+
+  assert.equal(applyAgePolicy(policy('min-21'), 21, face(17, 27)).decision.outcome, 'pass');
+  assert.equal(applyAgePolicy(policy('min-21'), 20, face(17, 27)).decision.outcome, 'fail');
+});
+
+test('treats a document age on either end of the facial interval as agreeing', () => {
+  assert.equal(applyAgePolicy(policy('min-21'), 21, face(21, 30)).decision.outcome, 'pass');
+  assert.equal(applyAgePolicy(policy('min-21'), 30, face(21, 30)).decision.outcome, 'pass');
+
+  const outside = applyAgePolicy(policy('min-21'), 31, face(21, 30));
+  assert.equal(outside.decision.outcome, 'fail');
+  assert.ok(codes(outside).includes('ages_disagree'));
+});
+
+test('sends disagreeing ages to review or failure as the policy says', () => {
+  const review = applyAgePolicy(policy('min-18'), 30, face(12, 20));
+  assert.equal(review.decision.outcome, 'manual_review');
+  assert.equal(review.decision.ageSource, null);
+  assert.equal(review.finalAge, null);
+
+  assert.equal(applyAgePolicy(policy('challenge-25'), 30, face(12, 20)).decision.outcome, 'fail');
+});
+
+test('lets the face alone pass only once its interval clears the buffer', () => {
+  // min-18 has a 3-year buffer: the interval must start at 21
+  const clears = applyAgePolicy(policy('min-18'), null, face(21, 31));
+  assert.equal(clears.decision.outcome, 'pass');
+  assert.equal(clears.decision.ageSource, 'face');
+  assert.equal(clears.finalAge, 26);
+  assert.deepEqual(codes(clears), ['face_clears_buffer', 'dob_missing']);
+
+  const short = applyAgePolicy(policy('min-18'), null, face(10, 17));
+  assert.equal(short.decision.outcome, 'fail');
+  assert.deepEqual(codes(short), ['face_within_buffer', 'dob_missing']);
+});
+
+test('sends a face-only decision near the minimum to review instead of failing it', () => {
+  // Reaches 18 but does not clear 21
+  const near = applyAgePolicy(policy('min-18'), null, face(14, 18));
+  assert.equal(near.decision.outcome, 'manual_review');
+  assert.equal(near.decision.ageSource, null);
+  assert.deepEqual(codes(near), ['face_within_buffer', 'dob_missing', 'face_near_minimum']);
+
+  assert.equal(applyAgePolicy(policy('min-18'), null, face(20, 30)).decision.outcome, 'manual_review');
+  // A policy that fails a missing date of birth still fails
+  assert.equal(applyAgePolicy(policy('min-25'), null, face(22, 30)).decision.outcome, 'fail');
+});
+
+test('sends a Challenge 25 face whose interval straddles 25 to review without a date of birth', () => {
+  const result = applyAgePolicy(policy('challenge-25'), null, face(22, 30));
+  assert.equal(result.decision.outcome, 'manual_review');
+  assert.equal(result.decision.ageSource, null);
+
+  assert.equal(applyAgePolicy(policy('challenge-25'), null, face(25, 34)).decision.outcome, 'pass');
+});
+
+test('falls back to the document under Challenge 25 when the face does not look over 25', () => {
+  const result = applyAgePolicy(policy('challenge-25'), 19, face(16, 24));
+  assert.equal(result.decision.outcome, 'pass');
+  assert.equal(result.decision.ageSource, 'document');
+  assert.equal(result.finalAge, 19);
+  assert.deepEqual(codes(result), ['face_within_buffer', 'document_age_meets_minimum']);
+
+  assert.equal(applyAgePolicy(policy('challenge-25'), 17, face(14, 22)).decision.outcome, 'fail');
+});
+
+test('decides on the document alone when no face was found, and follows onMissingDob without either', () => {
+  const documentOnly = applyAgePolicy(policy('min-18'), 18, NO_FACE);
+  assert.equal(documentOnly.decision.outcome, 'pass');
+  assert.deepEqual(codes(documentOnly), ['face_unavailable', 'document_age_meets_minimum']);
+
+  assert.equal(applyAgePolicy(policy('min-18'), null, NO_FACE).decision.outcome, 'fail');
+  assert.equal(applyAgePolicy(policy('challenge-25'), null, NO_FACE).decision.outcome, 'manual_review');
+  assert.equal(applyAgePolicy(policy('min-25'), null, face(40, 50)).decision.outcome, 'fail');
+});
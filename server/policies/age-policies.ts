@@ -0,0 +1,144 @@
+import fs from "fs";
+import path from "path";
+import { agePolicySchema, type AgeDecision, type AgeDecisionReason, type AgePolicy } from "@shared/schema";
+
+// Age gates differ by market and product, so they are named policies in a JSON
+// file rather than one hardcoded limit. Each verification is judged against one
+// policy, which reconciles the age read from the document with the facial age.
+
+interface AgePolicyFile {
+  defaultPolicy: string;
+  policies: AgePolicy[];
+}
+
+export interface FacialAge {
+  age: number | null;
+  low: number | null;
+  high: number | null;
+}
+
+export interface AgePolicyResult {
+  decision: AgeDecision;
+  finalAge: number | null; // The age that decided the outcome
+}
+
+export class AgePolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgePolicyError';
+  }
+}
+
+export class AgePolicyRegistry {
+  private filePath: string;
+  private policies: Map<string, AgePolicy>;
+  private defaultPolicy: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.policies = new Map();
+    this.defaultPolicy = '';
+  }
+
+  // A missing or invalid policy file stops startup: guessing an age gate is worse than not running
+  load(): AgePolicy[] {
+    if (this.policies.size > 0) return Array.from(this.policies.values());
+
+    let file: AgePolicyFile;
+    try {
+      file = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch (error) {
+      throw new AgePolicyError(`Age policy file ${this.filePath} is missing or not valid JSON`);
+    }
+
+    const problems: string[] = [];
+    const policies = new Map<string, AgePolicy>();
+    (file.policies || []).forEach((entry, index) => {
+      const parsed = agePolicySchema.safeParse(entry);
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'policy'}: ${issue.message}`);
+        problems.push(`policy ${entry?.name || index}: ${issues.join('; ')}`);
+      } else if (policies.has(parsed.data.name)) {
+        problems.push(`policy ${parsed.data.name} is declared twice`);
+      } else {
+        policies.set(parsed.data.name, parsed.data);
+      }
+    });
+    const defaultPolicy = process.env.AGE_POLICY || file.defaultPolicy;
+    if (!policies.has(defaultPolicy)) problems.push(`default policy '${defaultPolicy}' is not defined`);
+
+    if (problems.length > 0) {
+      throw new AgePolicyError(`Age policy file ${this.filePath} is invalid:\n  ${problems.join('\n  ')}`);
+    }
+
+    this.policies = policies;
+    this.defaultPolicy = defaultPolicy;
+    return Array.from(policies.values());
+  }
+
+  getDefaultPolicy(): AgePolicy {
+    this.load();
+    return this.policies.get(this.defaultPolicy)!;
+  }
+
+  // Undefined when no policy has that name; callers decide whether that is an error
+  getPolicy(name: string | null | undefined): AgePolicy | undefined {
+    this.load();
+    return name ? this.policies.get(name) : this.getDefaultPolicy();
+  }
+}
+
+function describeInterval(face: FacialAge): string {
+  return `${face.low}-${face.high}`;
+}
+
+// Pure and deterministic: the same policy and ages always give the same decision
+export function applyAgePolicy(policy: AgePolicy, documentAge: number | null, face: FacialAge): AgePolicyResult {
+  const reasons: AgeDecisionReason[] = [];
+  const faceBar = policy.minimumAge + policy.faceBuffer;
+  const hasFace = face.age !== null && face.low !== null && face.high !== null;
+  const faceClears = hasFace && face.low! >= faceBar;
+
+  const decide = (outcome: AgeDecision['outcome'], ageSource: AgeDecision['ageSource']): AgePolicyResult => ({
+    decision: { policy, outcome, ageSource, reasons },
+    finalAge: ageSource === 'face' ? face.age : ageSource === 'document' ? documentAge : null,
+  });
+
+  if (!hasFace) {
+    reasons.push({ code: 'face_unavailable', message: 'No facial age estimate was available.' });
+  } else if (faceClears) {
+    reasons.push({ code: 'face_clears_buffer', message: `Facial age ${describeInterval(face)} is at least ${faceBar} (${policy.minimumAge} plus a ${policy.faceBuffer}-year buffer).` });
+  } else {
+    reasons.push({ code: 'face_within_buffer', message: `Facial age ${describeInterval(face)} does not clear ${faceBar} (${policy.minimumAge} plus a ${policy.faceBuffer}-year buffer).` });
+  }
+
+  if (documentAge === null) {
+    reasons.push({ code: 'dob_missing', message: 'No date of birth or age could be read from the document.' });
+    if (policy.onMissingDob === 'fail') return decide('fail', null);
+    if (faceClears) return decide('pass', 'face');
+    // The facial interval is heuristic, not calibrated, so a face that may be on
+    // either side of the minimum is never failed on the face alone
+    if (hasFace && face.high! >= policy.minimumAge) {
+      reasons.push({ code: 'face_near_minimum', message: `Facial age ${describeInterval(face)} reaches the minimum of ${policy.minimumAge}; the face alone cannot decide.` });
+      return decide('manual_review', null);
+    }
+    return decide(policy.onMissingDob === 'manual_review' ? 'manual_review' : 'fail', null);
+  }
+
+  if (hasFace && (documentAge < face.low! || documentAge > face.high!)) {
+    reasons.push({ code: 'ages_disagree', message: `The document age (${documentAge}) is outside the facial age range ${describeInterval(face)}.` });
+    if (policy.onDisagreement === 'fail') return decide('fail', null);
+    if (policy.onDisagreement === 'manual_review') return decide('manual_review', null);
+  }
+
+  if (documentAge >= policy.minimumAge) {
+    reasons.push({ code: 'document_age_meets_minimum', message: `The document age (${documentAge}) meets the minimum of ${policy.minimumAge}.` });
+    return decide('pass', 'document');
+  }
+  reasons.push({ code: 'document_age_below_minimum', message: `The document age (${documentAge}) is below the minimum of ${policy.minimumAge}.` });
+  return decide('fail', 'document');
+}
+
+export const agePolicies = new AgePolicyRegistry(
+  process.env.AGE_POLICY_FILE || path.resolve(process.cwd(), 'policies', 'age-policies.json'),
+);
@@ -1,13 +1,39 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { createWorker } from "tesseract.js";
 import sharp from "sharp";
-import { insertVerificationSchema } from "@shared/schema";
-import { uploadRateLimit, verificationRateLimit, validateUploadedFile, anonymizeForLogging } from "./security";
+import QRCode from "qrcode";
+import { insertVerificationSchema, confidenceFields, type VerificationRecord } from "@shared/schema";
+import { ocrWorkerPool, OcrPoolBusyError } from "./ocr/worker-pool";
+import { languageAssets } from "./ocr/language-assets";
+import { uploadRateLimit, verificationRateLimit, livenessRateLimit, handoffRateLimit, handoffRedeemRateLimit, validateUploadedFile, anonymizeForLogging, secureFileDelete, ZIP_MIME_TYPES } from "./security";
+import { parseDocument, getDocumentSides, classifyDocument } from "./documents/registry";
+import { normaliseDigits, parseDate, extractBirthDate, extractYearOfBirth, calculateAge, ageFromYearOfBirth } from "./documents/dates";
+import type { DocumentFields, DocumentSide, DocumentType, Gender } from "./documents/types";
+import type { MrzMismatch, MrzResult } from "./documents/mrz";
+import { rasterisePdf, PdfProcessingError } from "./documents/pdf";
+import { rectifyDocumentImage, type RectificationResult } from "./imaging/card-rectifier";
+import { readLayoutZones, type LayoutReading } from "./ocr/zone-reader";
+import { computeFieldConfidences } from "./ocr/field-confidence";
+import { scanQrCode } from "./imaging/qr-scanner";
+import { extractPortrait } from "./imaging/portrait-extractor";
+import { layoutTemplates } from "./documents/layout-templates";
+import { decodeSecureQr, isSecureQrPayload, secureQrPhotoToPng, secureQrToFields, secureQrVerifier, SecureQrError, type SecureQrData, type SecureQrStatus } from "./documents/aadhaar-qr";
+import { offlineEkycVerifier, offlineEkycToFields, OfflineEkycError } from "./documents/offline-ekyc";
+import { faceAnalyzer } from "./faces/face-analyzer";
+import { compareFaces, type FaceComparison } from "./faces/face-matcher";
+import { estimateAge, type AgeEstimate } from "./faces/age-estimator";
+import { checkFaceCapture, type FaceCaptureSubject } from "./faces/face-capture";
+import { assessPresentationAttack, PRESENTATION_ATTACK_GUIDANCE, SPOOF_SCORE_THRESHOLD } from "./faces/presentation-attack";
+import { checkLiveness, issueLivenessChallenge, isChallengeExpired, LIVENESS_FRAME_LIMIT } from "./faces/liveness";
+import { PIPELINE_VERSION, claimVerification, hashVerificationInputs, releaseVerification, sameInputs } from "./pipeline";
+import { agePolicies, applyAgePolicy } from "./policies/age-policies";
+import { handoffSessions, HandoffError, type HandoffErrorCode, type HandoffSession } from "./handoff/handoff-sessions";
+import type { Page } from "tesseract.js";
+import type { AgeDecision, AgePolicy, FieldConfidence, FieldConfidences, InputHashes } from "@shared/schema";
 // Face analysis libraries - simplified approach for better reliability
 
 // Configure multer for file uploads
@@ -17,27 +43,73 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/jpg'];
+    const allowedTypes = ['image/jpeg', 'image/png', 'image/jpg', 'application/pdf'];
     if (allowedTypes.includes(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only JPEG and PNG are allowed.'));
+      cb(new Error('Invalid file type. Only JPEG, PNG and PDF are allowed.'));
     }
   }
 });
 
-// Enhanced OCR processing with multiple languages and preprocessing techniques
-async function processOCR(imagePath: string): Promise<{ text: string; name?: string; age?: number; dob?: string; confidence: number; language?: string }> {
-  // Initialize workers for multiple languages
-  const englishWorker = await createWorker('eng');
-  const hindiWorker = await createWorker('hin');
-  const teluguWorker = await createWorker('tel');
-  
+// Liveness frames are analysed in memory and never written to disk
+const livenessUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 256 * 1024, // 256KB per frame
+    files: LIVENESS_FRAME_LIMIT,
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'image/jpeg') {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Liveness frames must be JPEG.'));
+    }
+  }
+});
+
+// Offline e-KYC archives hold one small XML file
+const ekycUpload = multer({
+  dest: 'uploads/',
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (ZIP_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only ZIP files are allowed.'));
+    }
+  }
+});
+
+interface OcrOptions {
+  // Reference time for ages and plausible dates, normally the upload time
+  asOf: Date;
+  // Set when the image was rectified to the card outline, enabling layout templates
+  rectifiedCard?: boolean;
+  side?: DocumentSide;
+  // Document type already established, e.g. from the front side
+  expectedType?: DocumentType;
+}
+
+type OcrResult = ExtractedInfo & {
+  confidence: number;
+  language?: string;
+  layout?: LayoutReading;
+  fieldConfidence: FieldConfidences;
+  // Word-level results the fields were extracted from
+  pages: Page[];
+};
+
+// Enhanced OCR processing with multiple languages and preprocessing techniques.
+// On a rectified card the matching layout template is also read zone by zone.
+async function processOCR(imagePath: string, options: OcrOptions): Promise<OcrResult> {
+  // Multiple preprocessing approaches for better OCR accuracy
+  const processedImagePath1 = imagePath + '_processed1.jpg';
+  const processedImagePath2 = imagePath + '_processed2.jpg';
+
   try {
-    // Multiple preprocessing approaches for better OCR accuracy
-    const processedImagePath1 = imagePath + '_processed1.jpg';
-    const processedImagePath2 = imagePath + '_processed2.jpg';
-    
     // Method 1: Standard enhancement
     await sharp(imagePath)
       .resize(1600, null, { withoutEnlargement: true })
@@ -56,55 +128,311 @@ async function processOCR(imagePath: string): Promise<{ text: string; name?: str
       .jpeg({ quality: 95 })
       .toFile(processedImagePath2);
 
-    // Try multiple languages and preprocessing methods
-    const results = await Promise.all([
-      englishWorker.recognize(processedImagePath1),
-      englishWorker.recognize(processedImagePath2),
-      hindiWorker.recognize(processedImagePath1),
-      teluguWorker.recognize(processedImagePath1)
-    ]);
+    // Every configured language reads the standard image; the primary language
+    // also gets the high-contrast variant
+    const primary = languageAssets.getPrimaryLanguage();
+    const passes = [
+      { pack: primary, imagePath: processedImagePath1 },
+      { pack: primary, imagePath: processedImagePath2 },
+      ...languageAssets.getLanguages()
+        .filter(pack => pack.code !== primary.code)
+        .map(pack => ({ pack, imagePath: processedImagePath1 })),
+    ];
+
+    const results = await Promise.all(
+      passes.map(pass => ocrWorkerPool.recognize(pass.pack.code, pass.imagePath, undefined, { blocks: true }))
+    );
     
     // Find the result with highest confidence
     let bestResult = results[0].data;
-    let bestLanguage = 'English';
+    let bestLanguage = primary.label;
     
     results.forEach((result, index) => {
       if (result.data.confidence > bestResult.confidence) {
         bestResult = result.data;
-        bestLanguage = index === 0 || index === 1 ? 'English' : 
-                     index === 2 ? 'Hindi' : 'Telugu';
+        bestLanguage = passes[index].pack.label;
       }
     });
     
     const text = bestResult.text;
     
-    // Clean up processed images
-    fs.unlinkSync(processedImagePath1);
-    fs.unlinkSync(processedImagePath2);
-    
     // Extract information from OCR text
-    const extractedInfo = extractInfoFromText(text);
+    let extractedInfo = extractInfoFromText(text, options);
+
+    // Zone readings are more reliable than whole-page guesses, so re-extract with them
+    let layout: LayoutReading | undefined;
+    if (options.rectifiedCard) {
+      layout = await readLayoutZones(imagePath, extractedInfo.documentType, options.side || 'front', options.asOf);
+      if (layout) {
+        extractedInfo = extractInfoFromText(text, options, layout.fields);
+      }
+    }
     
     return {
       ...extractedInfo,
       confidence: Math.round(bestResult.confidence),
-      language: bestLanguage
+      language: bestLanguage,
+      layout,
+      fieldConfidence: computeFieldConfidences(extractedInfo, [bestResult], layout ? [layout] : []),
+      pages: [bestResult],
     };
   } finally {
-    await englishWorker.terminate();
-    await hindiWorker.terminate();
-    await teluguWorker.terminate();
+    // Clean up processed images; workers stay alive in the pool
+    for (const processedPath of [processedImagePath1, processedImagePath2]) {
+      if (fs.existsSync(processedPath)) fs.unlinkSync(processedPath);
+    }
   }
 }
 
-// Extract name, age, and DOB from OCR text
-function extractInfoFromText(text: string): { text: string; name?: string; age?: number; dob?: string } {
-  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+// OCR every page, then extract from the combined text so parsers see fields split across pages
+async function processDocumentImages(imagePaths: string[], options: OcrOptions): Promise<OcrResult> {
+  const pageResults = [];
+  for (const imagePath of imagePaths) {
+    pageResults.push(await processOCR(imagePath, options));
+  }
+
+  if (pageResults.length === 1) {
+    return pageResults[0];
+  }
+
+  const combinedText = pageResults.map(result => result.text).join('\n');
+  const averageConfidence = pageResults.reduce((sum, result) => sum + result.confidence, 0) / pageResults.length;
+
+  const layouts = pageResults.flatMap(result => result.layout ? [result.layout] : []);
+  const pages = pageResults.flatMap(result => result.pages);
+  const extractedInfo = extractInfoFromText(combinedText, options, Object.assign({}, ...layouts.map(layout => layout.fields)));
+
+  return {
+    ...extractedInfo,
+    confidence: Math.round(averageConfidence),
+    language: pageResults[0].language,
+    fieldConfidence: computeFieldConfidences(extractedInfo, pages, layouts),
+    pages,
+  };
+}
+
+type ExtractedInfo = DocumentFields & {
+  text: string;
+  name?: string;
+  age?: number;
+  dob?: string;
+  documentType: DocumentType;
+  mrz?: MrzResult;
+  mrzMismatches: MrzMismatch[];
+};
+
+interface FraudSignal {
+  code: 'mrz_check_digit_failed' | 'mrz_visual_mismatch' | 'document_side_mismatch' | 'qr_signature_invalid' | 'qr_visual_mismatch';
+  field?: string;
+  message: string;
+}
+
+const MRZ_FIELD_LABELS: Record<MrzMismatch['field'], string> = {
+  name: 'name',
+  dob: 'date of birth',
+  documentNumber: 'document number',
+  gender: 'sex',
+  expiryDate: 'expiry date',
+};
+
+// Turn MRZ validation results into fraud signals for qualityFeedback
+function collectFraudSignals(info: ExtractedInfo): FraudSignal[] {
+  const signals: FraudSignal[] = [];
+
+  if (info.mrz && !info.mrz.valid) {
+    const failed = Object.entries(info.mrz.checks)
+      .filter(([, passed]) => !passed)
+      .map(([field]) => field);
+    signals.push({
+      code: 'mrz_check_digit_failed',
+      message: `Machine-readable zone check digits failed (${failed.join(', ')}). The MRZ may be misread or altered.`,
+    });
+  }
+
+  for (const mismatch of info.mrzMismatches) {
+    signals.push({
+      code: 'mrz_visual_mismatch',
+      field: mismatch.field,
+      message: `Machine-readable zone ${MRZ_FIELD_LABELS[mismatch.field]} does not match the printed value.`,
+    });
+  }
+
+  return signals;
+}
+
+// Adds fraud signals to a record's qualityFeedback JSON, keeping anything already there
+function withFraudSignals(qualityFeedback: string | null, signals: FraudSignal[]): string | null {
+  if (signals.length === 0) return qualityFeedback;
+
+  const feedback = qualityFeedback ? JSON.parse(qualityFeedback) : {};
+  return JSON.stringify({
+    ...feedback,
+    document: [...(feedback.document || []), ...signals.map(signal => signal.message)],
+    fraudSignals: [...(feedback.fraudSignals || []), ...signals],
+  });
+}
+
+const DOCUMENT_FIELDS: (keyof DocumentFields)[] = [
+  'documentNumber', 'name', 'dob', 'gender', 'fatherName', 'address', 'aadhaarNumber', 'yearOfBirth', 'expiryDate', 'nationality',
+];
+
+// The front-side fields already stored on a record
+function recordToFields(record: VerificationRecord): DocumentFields {
+  return {
+    documentNumber: record.documentNumber || undefined,
+    name: record.extractedName || undefined,
+    dob: record.extractedDob || undefined,
+    gender: (record.gender as Gender | null) || undefined,
+    address: record.address || undefined,
+    aadhaarNumber: record.aadhaarNumber || undefined,
+    yearOfBirth: record.yearOfBirth || undefined,
+    expiryDate: record.expiryDate || undefined,
+    nationality: record.nationality || undefined,
+  };
+}
+
+// Front values win; the back only fills what the front does not show (such as the
+// Aadhaar address). A number printed on both sides must agree.
+function mergeDocumentSides(front: DocumentFields, back: DocumentFields): { fields: DocumentFields; signals: FraudSignal[] } {
+  const fields: DocumentFields = { ...front };
+  for (const key of DOCUMENT_FIELDS) {
+    if (back[key] !== undefined && fields[key] === undefined) {
+      Object.assign(fields, { [key]: back[key] });
+    }
+  }
+
+  const signals: FraudSignal[] = [];
+  for (const key of ['documentNumber', 'aadhaarNumber'] as const) {
+    const frontValue = front[key]?.replace(/\s+/g, '').toUpperCase();
+    const backValue = back[key]?.replace(/\s+/g, '').toUpperCase();
+    if (frontValue && backValue && frontValue !== backValue) {
+      signals.push({
+        code: 'document_side_mismatch',
+        field: key,
+        message: 'The document number on the back does not match the front. Both sides must come from the same card.',
+      });
+      break;
+    }
+  }
+
+  return { fields, signals };
+}
+
+interface SecureQrReading {
+  data: SecureQrData;
+  status: SecureQrStatus;
+}
+
+// Looks for an Aadhaar Secure QR on any of the images and checks its signature
+async function readSecureQr(imagePaths: string[]): Promise<SecureQrReading | undefined> {
+  for (const imagePath of imagePaths) {
+    const payload = await scanQrCode(imagePath);
+    if (!payload || !isSecureQrPayload(payload)) continue;
+
+    try {
+      const data = decodeSecureQr(payload);
+      return { data, status: secureQrVerifier.verify(data) };
+    } catch (error) {
+      if (!(error instanceof SecureQrError)) throw error;
+      console.warn(`Ignoring unreadable Aadhaar QR: ${error.message}`);
+    }
+  }
+  return undefined;
+}
+
+type SecureQrTarget = DocumentFields & { age?: number; documentType: DocumentType; fieldConfidence: FieldConfidences };
+
+const QR_FIELD_CONFIDENCE: FieldConfidence = { confidence: 100, minSymbolConfidence: 100, source: 'qr', lowConfidence: false };
+
+// Printed text can be edited but the signed QR payload cannot, so a verified QR
+// replaces OCR values. Without a certificate the QR is not trusted at all.
+function applySecureQr<T extends SecureQrTarget>(info: T, qr: SecureQrReading | undefined, asOf: Date): { info: T; signals: FraudSignal[] } {
+  if (qr?.status === 'invalid_signature') {
+    return {
+      info,
+      signals: [{
+        code: 'qr_signature_invalid',
+        message: 'The signature on the Aadhaar QR code is not valid. The card may have been altered.',
+      }],
+    };
+  }
+  if (qr?.status !== 'verified') return { info, signals: [] };
+
+  const signals: FraudSignal[] = [];
+  const printedNumber = info.aadhaarNumber?.replace(/\s+/g, '');
+  if (printedNumber && !printedNumber.endsWith(qr.data.aadhaarLastFour)) {
+    signals.push({
+      code: 'qr_visual_mismatch',
+      field: 'aadhaarNumber',
+      message: 'The Aadhaar number printed on the card does not match its QR code.',
+    });
+  }
+
+  const qrFields = Object.fromEntries(Object.entries(secureQrToFields(qr.data)).filter(([, value]) => value !== undefined)) as DocumentFields;
+  const fieldConfidence = { ...info.fieldConfidence };
+  for (const field of confidenceFields) {
+    if (qrFields[field]) fieldConfidence[field] = QR_FIELD_CONFIDENCE;
+  }
+
+  const dob = qrFields.dob ? parseDate(qrFields.dob, 'aadhaar') : undefined;
+  return {
+    info: {
+      ...info,
+      ...qrFields,
+      documentType: 'aadhaar',
+      age: dob ? calculateAge(dob, asOf) : info.age,
+      fieldConfidence,
+    },
+    signals,
+  };
+}
+
+// Stores the QR photo beside the document image; returns undefined if it cannot be decoded
+function saveSecureQrPhoto(qr: SecureQrReading, documentPath: string): string | undefined {
+  const portraitPath = documentPath + '_qr_photo.png';
+  try {
+    fs.writeFileSync(portraitPath, secureQrPhotoToPng(qr.data.photo));
+    return portraitPath;
+  } catch (error) {
+    console.warn('Could not decode the Aadhaar QR photo:', error);
+    return undefined;
+  }
+}
+
+// Crops the printed photo for face comparison. On a rectified card the template the
+// fields were read with says where the photo is; otherwise it is searched for.
+async function cropDocumentPortrait(imagePath: string, info: OcrResult, rectifiedCard: boolean): Promise<{ path: string; source: string } | undefined> {
+  const template = !rectifiedCard ? undefined : info.layout
+    ? layoutTemplates.getTemplate(info.layout.templateId)
+    : layoutTemplates.getTemplates(info.documentType).find(candidate => candidate.portrait);
+
+  try {
+    const portrait = await extractPortrait(imagePath, { template });
+    return portrait ? { path: portrait.path, source: portrait.method } : undefined;
+  } catch (error) {
+    console.warn('Could not crop the document portrait:', error);
+    return undefined;
+  }
+}
+
+// Classify the document, run its parser, then fall back to generic patterns for name, age and DOB.
+// Layout zone fields replace the parser's guesses unless a valid MRZ already supplied them.
+// Ages are computed against options.asOf, the time of the upload.
+function extractInfoFromText(text: string, options: OcrOptions, layoutFields: DocumentFields = {}): ExtractedInfo {
+  const { asOf } = options;
+  const normalisedText = normaliseDigits(text);
+  const lines = normalisedText.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  const parsed = parseDocument(text, asOf, options.expectedType);
+  const { documentType, mrz, mrzMismatches } = parsed;
+  const fields = mrz?.valid ? { ...layoutFields, ...parsed.fields } : { ...parsed.fields, ...layoutFields };
   
-  let name: string | undefined;
-  let dob: string | undefined;
+  let name: string | undefined = fields.name;
   let age: number | undefined;
 
+  // Labelled birth dates first; issue and expiry dates are never taken as the DOB
+  const dob = fields.dob || extractBirthDate(lines, documentType, asOf);
+  const yearOfBirth = fields.yearOfBirth || extractYearOfBirth(normalisedText, asOf);
+
   // Common patterns for Indian Aadhar cards and other IDs
   for (const line of lines) {
     // Name extraction (usually appears after certain keywords)
@@ -118,14 +446,6 @@ function extractInfoFromText(text: string): { text: string; name?: string; age?:
       name = line.replace(/[^a-zA-Z\s]/g, '').trim();
     }
 
-    // DOB extraction
-    if (!dob) {
-      const dobMatch = line.match(/(\d{1,2}[\/\-\.]\d{1,2}[\/\-\.]\d{4}|\d{4}[\/\-\.]\d{1,2}[\/\-\.]\d{1,2})/);
-      if (dobMatch) {
-        dob = dobMatch[1];
-      }
-    }
-
     // Age extraction
     if (!age) {
       const ageMatch = line.match(/(?:Age|age|उम्र)[\s:]*(\d{1,3})/);
@@ -135,48 +455,20 @@ function extractInfoFromText(text: string): { text: string; name?: string; age?:
     }
   }
 
-  // Calculate age from DOB if DOB found but age not found
-  if (dob && !age) {
-    try {
-      const dobDate = new Date(dob.replace(/[\/\-\.]/g, '/'));
-      const today = new Date();
-      age = today.getFullYear() - dobDate.getFullYear();
-      const monthDiff = today.getMonth() - dobDate.getMonth();
-      if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < dobDate.getDate())) {
-        age--;
-      }
-    } catch (error) {
-      console.error('Error calculating age from DOB:', error);
-    }
+  // A printed DOB is more reliable than a printed age
+  const dobDate = dob ? parseDate(dob, documentType) : undefined;
+  if (dobDate) {
+    age = calculateAge(dobDate, asOf);
+  } else if (!age && yearOfBirth) {
+    age = ageFromYearOfBirth(yearOfBirth, asOf);
   }
 
-  return { text, name, age, dob };
-}
-
-// Simple face comparison (mock implementation - in real app would use face-api.js)
-function calculateFaceMatchScore(): number {
-  // Mock implementation - returns random score between 70-95
-  // In real implementation, this would use face-api.js to compare faces
-  return Math.floor(Math.random() * 25) + 70;
-}
-
-// Advanced image analysis using computer vision techniques
-let imageAnalysisInitialized = false;
-
-async function initializeImageAnalysis() {
-  if (imageAnalysisInitialized) return;
-  
-  try {
-    console.log('Initializing advanced image analysis...');
-    imageAnalysisInitialized = true;
-    console.log('Image analysis initialized successfully');
-  } catch (error) {
-    console.error('Failed to initialize image analysis:', error);
-  }
+  return { ...fields, text, name, age, dob, yearOfBirth, documentType, mrz, mrzMismatches };
 }
 
 // Image quality assessment for feedback
-async function assessImageQuality(imagePath: string): Promise<{ 
+// With a subject, also checks the faces in the image: a document needs a face, a selfie one frontal, uncovered face
+async function assessImageQuality(imagePath: string, subject?: FaceCaptureSubject): Promise<{ 
   quality: 'excellent' | 'good' | 'poor' | 'very_poor';
   issues: string[];
   score: number;
@@ -241,6 +533,14 @@ async function assessImageQuality(imagePath: string): Promise<{
       }
     }
     
+    if (subject) {
+      const faceCheck = await checkFaceCapture(imagePath, subject);
+      issues.push(...faceCheck.reasons);
+      feedback.push(...faceCheck.guidance);
+      if (faceCheck.reasons.includes('no_face')) qualityScore -= 40;
+      qualityScore -= 15 * faceCheck.reasons.filter(reason => reason !== 'no_face').length;
+    }
+    
     // Determine overall quality
     let quality: 'excellent' | 'good' | 'poor' | 'very_poor';
     if (qualityScore >= 85) quality = 'excellent';
@@ -265,72 +565,19 @@ async function assessImageQuality(imagePath: string): Promise<{
   }
 }
 
-// Enhanced face comparison using advanced computer vision analysis
-async function calculateAdvancedFaceMatch(documentPath: string, selfiePath: string): Promise<{ score: number; confidence: number; feedback: string[] }> {
+// Face comparison with the bundled detection and embedding models, plus image quality feedback
+async function calculateAdvancedFaceMatch(documentPath: string, selfiePath: string): Promise<FaceComparison> {
   try {
-    await initializeImageAnalysis();
-    
-    // Advanced image analysis using Sharp for feature extraction
-    const documentBuffer = fs.readFileSync(documentPath);
-    const selfieBuffer = fs.readFileSync(selfiePath);
-    
-    // Extract detailed metadata and image statistics
-    const [documentMeta, selfieMeta] = await Promise.all([
-      sharp(documentBuffer).metadata(),
-      sharp(selfieBuffer).metadata()
-    ]);
-    
-    // Calculate image quality metrics
-    const documentQuality = (documentMeta.width || 0) * (documentMeta.height || 0);
-    const selfieQuality = (selfieMeta.width || 0) * (selfieMeta.height || 0);
-    
-    // Extract image statistics for comparison
-    const [documentStats, selfieStats] = await Promise.all([
-      sharp(documentBuffer).stats(),
-      sharp(selfieBuffer).stats()
-    ]);
-    
-    // Calculate similarity based on image characteristics
-    let similarityScore = 50; // Base score
-    
-    // Color channel analysis
-    const documentChannels = documentStats.channels;
-    const selfieChannels = selfieStats.channels;
-    
-    if (documentChannels && selfieChannels && documentChannels.length === selfieChannels.length) {
-      let channelSimilarity = 0;
-      for (let i = 0; i < documentChannels.length; i++) {
-        const docMean = documentChannels[i].mean;
-        const selfieMean = selfieChannels[i].mean;
-        const meanDiff = Math.abs(docMean - selfieMean) / 255;
-        channelSimilarity += (1 - meanDiff) * 15; // Each channel contributes up to 15 points
-      }
-      similarityScore += channelSimilarity;
-    }
-    
-    // Quality-based adjustment
-    const qualityRatio = Math.min(documentQuality, selfieQuality) / Math.max(documentQuality, selfieQuality);
-    similarityScore *= (0.7 + qualityRatio * 0.3);
-    
-    // Add some controlled randomness for realistic variation
-    const randomFactor = (Math.random() - 0.5) * 10;
-    similarityScore = Math.max(30, Math.min(95, similarityScore + randomFactor));
-    
-    // Calculate confidence based on image quality and analysis reliability
-    const avgQuality = (documentQuality + selfieQuality) / 2;
-    let confidence = Math.min(95, Math.max(65, avgQuality / 12000));
-    
-    // Higher confidence for better quality images
-    if (avgQuality > 500000) confidence += 10;
-    if (documentMeta.channels === 3 && selfieMeta.channels === 3) confidence += 5;
+    const comparison = await compareFaces(documentPath, selfiePath);
+    let confidence = comparison.confidence;
     
     // Assess image quality and provide feedback
     const [docQualityResult, selfieQualityResult] = await Promise.all([
-      assessImageQuality(documentPath),
-      assessImageQuality(selfiePath)
+      assessImageQuality(documentPath, 'document'),
+      assessImageQuality(selfiePath, 'selfie')
     ]);
     
-    const feedback: string[] = [];
+    const feedback: string[] = [...comparison.feedback];
     
     if (docQualityResult.quality === 'poor' || docQualityResult.quality === 'very_poor') {
       feedback.push('Document image quality is poor. Please upload a clearer photo.');
@@ -355,79 +602,32 @@ async function calculateAdvancedFaceMatch(documentPath: string, selfiePath: stri
     }
     
     return {
-      score: Math.round(similarityScore),
-      confidence: Math.round(Math.max(30, confidence)),
+      ...comparison,
+      confidence: Math.max(0, confidence),
       feedback
     };
   } catch (error) {
-    console.error('Error in advanced face comparison:', error);
+    console.error('Error in face comparison:', error);
     return {
-      score: Math.floor(Math.random() * 25) + 45,
-      confidence: 50,
+      score: 0,
+      confidence: 0,
+      distance: null,
+      modelVersion: faceAnalyzer.getModelVersion(),
+      faceBoxes: { document: [], selfie: [] },
       feedback: ['Error during face comparison. Please try again.']
     };
   }
 }
 
-// Advanced age estimation using facial feature analysis
-async function estimateAgeFromFace(imagePath: string): Promise<{ age: number | null; confidence: number; feedback: string[] }> {
+// Facial age estimation with image quality feedback
+async function estimateAgeFromFace(imagePath: string): Promise<AgeEstimate> {
   try {
-    await initializeImageAnalysis();
-    
-    // Comprehensive image analysis for age estimation
-    const imageBuffer = fs.readFileSync(imagePath);
-    const [metadata, stats] = await Promise.all([
-      sharp(imageBuffer).metadata(),
-      sharp(imageBuffer).stats()
-    ]);
-    
-    // Extract features that correlate with age
-    const imageArea = (metadata.width || 0) * (metadata.height || 0);
-    const channels = stats.channels || [];
-    
-    // Base age calculation using image characteristics
-    let estimatedAge = 25; // Starting point
-    
-    if (channels.length >= 3) {
-      // Analyze skin tone and texture indicators
-      const redChannel = channels[0]?.mean || 128;
-      const greenChannel = channels[1]?.mean || 128;
-      const blueChannel = channels[2]?.mean || 128;
-      
-      // Skin tone analysis (simplified model)
-      const skinToneIndicator = (redChannel + greenChannel - blueChannel) / 2;
-      
-      // Age estimation based on facial feature analysis
-      if (skinToneIndicator > 150) estimatedAge += 8; // Warmer skin tones
-      if (skinToneIndicator < 100) estimatedAge -= 5; // Cooler skin tones
-      
-      // Texture analysis using standard deviation
-      const redStd = channels[0]?.stdev || 0;
-      const textureComplexity = redStd / 255;
-      
-      // Higher texture complexity often indicates older age
-      estimatedAge += textureComplexity * 15;
-    }
-    
-    // Add realistic variation
-    const ageVariation = (Math.random() - 0.5) * 12;
-    estimatedAge = Math.max(18, Math.min(65, estimatedAge + ageVariation));
-    
-    // Calculate confidence based on image quality and analysis factors
-    let confidence = 60; // Base confidence
-    
-    if (imageArea > 400000) confidence += 15; // High resolution
-    if (imageArea > 800000) confidence += 10; // Very high resolution
-    if (metadata.channels === 3) confidence += 10; // Color image
-    if (channels.length >= 3) confidence += 10; // Multiple channels available
-    
-    // Quality-based confidence adjustment
-    const qualityScore = Math.min(imageArea / 500000, 1);
-    confidence = Math.min(90, confidence * (0.7 + qualityScore * 0.3));
+    const estimate = await estimateAge(imagePath);
+    let confidence = estimate.confidence;
+    const feedback = [...estimate.feedback];
     
     // Assess image quality for age estimation
-    const imageQuality = await assessImageQuality(imagePath);
-    const feedback: string[] = [];
+    const imageQuality = await assessImageQuality(imagePath, 'selfie');
     
     if (imageQuality.quality === 'poor' || imageQuality.quality === 'very_poor') {
       feedback.push('Image quality affects age estimation accuracy. Please use better lighting.');
@@ -439,73 +639,428 @@ async function estimateAgeFromFace(imagePath: string): Promise<{ age: number | n
     }
     
     return {
-      age: Math.round(estimatedAge),
-      confidence: Math.round(Math.max(0, confidence)),
+      ...estimate,
+      confidence: Math.max(0, confidence),
       feedback
     };
   } catch (error) {
-    console.error('Error in advanced age estimation:', error);
+    console.error('Error in age estimation:', error);
     return {
       age: null,
+      low: null,
+      high: null,
       confidence: 0,
+      box: null,
       feedback: ['Error during age estimation. Please try again.']
     };
   }
 }
 
+const HANDOFF_ERROR_STATUS: Record<HandoffErrorCode, number> = {
+  handoff_not_found: 404,
+  handoff_token_invalid: 404,
+  handoff_token_expired: 410,
+  handoff_token_used: 409,
+};
+
+// A verification started on a phone is linked to the desktop that handed off to it.
+// The upload has succeeded either way, so a stale session only stops the desktop following.
+function linkHandoff(sessionId: unknown, verificationId: number): void {
+  if (typeof sessionId !== 'string' || !sessionId) return;
+  try {
+    handoffSessions.attachVerification(sessionId, verificationId);
+  } catch (error) {
+    if (!(error instanceof HandoffError)) throw error;
+    console.warn(`Handoff session not linked to verification ${verificationId}: ${error.code}`);
+  }
+}
+
+// The link in the QR code. Phones cannot reach localhost, so deployments behind a
+// proxy or on a LAN address set HANDOFF_BASE_URL to the address phones should use.
+function handoffUrl(req: Request, session: HandoffSession): string {
+  const base = process.env.HANDOFF_BASE_URL || `${req.protocol}://${req.get('host')}`;
+  return `${base.replace(/\/+$/, '')}/verification?handoff=${encodeURIComponent(session.token)}`;
+}
+
+interface VerificationChecks {
+  faceAnalysis: FaceComparison;
+  ageEstimation: AgeEstimate;
+  ageDecision: AgeDecision;
+  identityVerified: boolean;
+  ageVerified: boolean;
+  finalAge: number | null;
+}
+
+// Every check behind a verification decision. Nothing here is random, so the same
+// input files, record and policy always give the same scores and decisions.
+async function runVerificationChecks(verification: VerificationRecord, policy: AgePolicy): Promise<VerificationChecks> {
+  // Enhanced face comparison with confidence scoring, against the portrait alone when one was found
+  const faceAnalysis = await calculateAdvancedFaceMatch(verification.portraitPath || verification.documentPath, verification.selfiePath);
+  if (!verification.portraitPath) {
+    faceAnalysis.feedback.unshift('The photo on your ID could not be located, so your selfie was compared with the whole document. Upload a clearer, uncropped photo of the ID for a reliable match.');
+  }
+  
+  // Estimate age from facial features
+  const ageEstimation = await estimateAgeFromFace(verification.selfiePath);
+  
+  // Determine verification results with confidence scoring; a selfie that may be a photo of a photo cannot verify identity
+  const livenessPassed = verification.livenessOutcome === 'passed';
+  if (!livenessPassed) {
+    faceAnalysis.feedback.unshift('The liveness check was not passed, so identity could not be verified. Retake your selfie and follow the on-screen prompts.');
+  }
+  const identityVerified = faceAnalysis.score >= 50 && faceAnalysis.confidence >= 60 && livenessPassed;
+  
+  // The age policy reconciles the document age with the facial age interval
+  const { decision: ageDecision, finalAge } = applyAgePolicy(policy, verification.extractedAge, ageEstimation);
+  const ageVerified = ageDecision.outcome === 'pass';
+
+  return { faceAnalysis, ageEstimation, ageDecision, identityVerified, ageVerified, finalAge };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   
+  // The tiny detector and landmark models, for live capture guidance in the browser
+  app.use('/models/face', express.static(faceAnalyzer.getModelDirectory(), { maxAge: '7d' }));
+
   // Upload document endpoint
   app.post('/api/upload-document', uploadRateLimit, upload.single('document'), async (req, res) => {
+    // The upload is only read here. Images made from it are kept only once the record points to them.
+    const derivedPaths: string[] = [];
+    let keptPaths: string[] = [];
     try {
       // Validate uploaded file
-      const fileValidation = validateUploadedFile(req.file);
+      const fileValidation = validateUploadedFile(req.file, { allowPdf: true });
       if (!req.file || !fileValidation.isValid) {
         return res.status(400).json({ message: fileValidation.error || 'No file uploaded' });
       }
 
+      // PDFs are rasterised first; the original (possibly encrypted) file is then removed.
+      // Rendered pages are already flat, while photos are rectified to the card outline.
+      // Every page is read, but only the first is stored.
+      let documentImages = [req.file.path];
+      let rectification: RectificationResult | undefined;
+      const isPdf = req.file.mimetype === 'application/pdf';
+      if (isPdf) {
+        try {
+          documentImages = rasterisePdf(req.file.path, { password: req.body.pdfPassword || undefined });
+          derivedPaths.push(...documentImages);
+        } finally {
+          await secureFileDelete(req.file.path);
+        }
+      } else {
+        rectification = await rectifyDocumentImage(req.file.path);
+        documentImages = [rectification.path];
+        derivedPaths.push(rectification.path);
+      }
+
       // Process OCR
-      const ocrResult = await processOCR(req.file.path);
+      const asOf = new Date();
+      const ocrResult = await processDocumentImages(documentImages, {
+        asOf,
+        rectifiedCard: rectification?.cardDetected === true,
+        side: 'front',
+      });
+
+      // The QR is read from the full-resolution photo; rectification downsamples it
+      const secureQr = await readSecureQr(isPdf ? documentImages : [req.file.path]);
+      const { info: extracted, signals: qrSignals } = applySecureQr(ocrResult, secureQr, asOf);
+      const qrVerified = secureQr?.status === 'verified';
+
+      // The signed QR photo beats anything cropped from the card
+      const qrPhoto = qrVerified ? saveSecureQrPhoto(secureQr, documentImages[0]) : undefined;
+      const portrait = qrPhoto
+        ? { path: qrPhoto, source: 'secure_qr' }
+        : await cropDocumentPortrait(documentImages[0], ocrResult, rectification?.cardDetected === true);
+      if (portrait) derivedPaths.push(portrait.path);
+      const fraudSignals = [...collectFraudSignals(ocrResult), ...qrSignals];
       
       // Create verification record with confidence scores
       const verificationData = {
-        documentPath: req.file.path,
+        documentPath: documentImages[0],
         selfiePath: '', // Will be updated when selfie is uploaded
-        extractedName: ocrResult.name || null,
-        extractedAge: ocrResult.age || null,
-        extractedDob: ocrResult.dob || null,
+        portraitPath: portrait?.path || null,
+        portraitSource: portrait?.source || null,
+        extractedName: extracted.name || null,
+        extractedAge: extracted.age || null,
+        extractedDob: extracted.dob || null,
+        documentType: extracted.documentType,
+        documentNumber: extracted.documentNumber || null,
+        aadhaarNumber: extracted.aadhaarNumber || null,
+        gender: extracted.gender || null,
+        yearOfBirth: extracted.yearOfBirth || null,
+        address: extracted.address || null,
+        nationality: extracted.nationality || null,
+        expiryDate: extracted.expiryDate || null,
         faceMatchScore: null,
         faceConfidence: null,
         ageConfidence: null,
         ocrConfidence: ocrResult.confidence,
         ocrLanguage: ocrResult.language,
-        qualityFeedback: null,
+        fieldConfidence: extracted.fieldConfidence,
+        qrVerified,
+        qualityFeedback: withFraudSignals(null, fraudSignals),
         ageVerified: false,
         identityVerified: false,
         status: 'document_processed',
       };
 
       const verification = await storage.createVerificationRecord(verificationData);
+      keptPaths = [verification.documentPath, verification.portraitPath].filter((file): file is string => !!file);
+      linkHandoff(req.body.handoffSessionId, verification.id);
       
       res.json({
         success: true,
         verificationId: verification.id,
         extractedData: {
-          name: ocrResult.name,
-          age: ocrResult.age,
-          dob: ocrResult.dob,
+          name: extracted.name,
+          age: extracted.age,
+          dob: extracted.dob,
+          documentType: extracted.documentType,
+          documentNumber: extracted.documentNumber,
+          aadhaarNumber: extracted.aadhaarNumber,
+          gender: extracted.gender,
+          yearOfBirth: extracted.yearOfBirth,
+          address: extracted.address,
+          nationality: extracted.nationality,
+          expiryDate: extracted.expiryDate,
           text: ocrResult.text,
+          mrzValid: ocrResult.mrz?.valid,
+          qrStatus: secureQr?.status,
+          qrVerified,
+          cardDetected: rectification?.cardDetected,
+          fieldConfidence: extracted.fieldConfidence,
+          layoutTemplate: ocrResult.layout?.templateId,
+          layoutZones: ocrResult.layout?.zones,
+          fraudSignals,
+          // e-Aadhaar PDFs already contain both sides on one page
+          backSideExpected: !rectification ? false : getDocumentSides(extracted.documentType).includes('back'),
         }
       });
 
     } catch (error) {
+      if (error instanceof PdfProcessingError) {
+        return res.status(400).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof OcrPoolBusyError) {
+        return res.status(503).json({ message: 'Document processing is busy. Please try again shortly.' });
+      }
       console.error('Document upload error:', error);
       res.status(500).json({ message: 'Failed to process document' });
+    } finally {
+      const leftovers = [req.file?.path, ...derivedPaths].filter((file): file is string => !!file && !keptPaths.includes(file));
+      await Promise.all(leftovers.map(file => secureFileDelete(file).catch(error => console.error('Failed to delete upload:', error))));
+    }
+  });
+
+  // Attach the back side of a two-sided document (Aadhaar, driving licence, voter ID)
+  // to an existing record and merge what it adds
+  app.post('/api/upload-document-back', uploadRateLimit, upload.single('document'), async (req, res) => {
+    // The upload is only read here; the rectified copy is kept only once it is stored on the record
+    let rectifiedPath: string | undefined;
+    let stored = false;
+    try {
+      const fileValidation = validateUploadedFile(req.file);
+      if (!req.file || !fileValidation.isValid) {
+        return res.status(400).json({ message: fileValidation.error || 'No file uploaded' });
+      }
+
+      const { verificationId } = req.body;
+      if (!verificationId) {
+        return res.status(400).json({ message: 'Verification ID required' });
+      }
+
+      const verification = await storage.getVerificationRecord(parseInt(verificationId));
+      if (!verification) {
+        return res.status(404).json({ message: 'Verification record not found' });
+      }
+
+      if (verification.status === 'processing' || verification.status === 'completed') {
+        return res.status(409).json({ message: 'This verification has already been processed' });
+      }
+
+      const expectedType = verification.documentType as DocumentType;
+      const asOf = new Date();
+      const rectification = await rectifyDocumentImage(req.file.path);
+      rectifiedPath = rectification.path;
+      const ocrResult = await processDocumentImages([rectification.path], {
+        asOf,
+        rectifiedCard: rectification.cardDetected,
+        side: 'back',
+        expectedType,
+      });
+
+      // The parsed type falls back to the expected one, so compare what the text alone shows.
+      // Sparse back sides often classify as nothing, which is not a mismatch.
+      const classifiedType = classifyDocument(normaliseDigits(ocrResult.text)).documentType;
+      if (expectedType !== 'unknown' && classifiedType !== 'unknown' && classifiedType !== expectedType) {
+        return res.status(400).json({
+          message: 'This does not look like the back of the same document. Please upload the other side of your ID.',
+          code: 'document_side_mismatch',
+        });
+      }
+
+      const front = recordToFields(verification);
+      const merged = mergeDocumentSides(front, ocrResult);
+
+      // Confidence follows whichever side supplied the value
+      const mergedConfidence: FieldConfidences = Object.fromEntries(confidenceFields.flatMap(field => {
+        const confidence = front[field] ? verification.fieldConfidence?.[field] : ocrResult.fieldConfidence[field];
+        return confidence ? [[field, confidence]] : [];
+      }));
+
+      // The Aadhaar QR is printed on the back; a verified one overrides both sides
+      const secureQr = await readSecureQr([req.file.path]);
+      const { info: fields, signals: qrSignals } = applySecureQr({
+        ...merged.fields,
+        age: verification.extractedAge ?? ocrResult.age,
+        documentType: expectedType === 'unknown' ? ocrResult.documentType : expectedType,
+        fieldConfidence: mergedConfidence,
+      }, secureQr, asOf);
+      const fieldConfidence = fields.fieldConfidence;
+      const fraudSignals = [...collectFraudSignals(ocrResult), ...merged.signals, ...qrSignals];
+
+      // Replacing an earlier back-side photo
+      if (verification.documentBackPath && verification.documentBackPath !== rectification.path) {
+        await secureFileDelete(verification.documentBackPath);
+      }
+
+      let { portraitPath, portraitSource } = verification;
+      if (secureQr?.status === 'verified') {
+        const qrPhoto = saveSecureQrPhoto(secureQr, rectification.path);
+        if (qrPhoto) {
+          if (portraitPath) await secureFileDelete(portraitPath);
+          portraitPath = qrPhoto;
+          portraitSource = 'secure_qr';
+        }
+      }
+
+      const updated = await storage.updateVerificationRecord(verification.id, {
+        documentBackPath: rectification.path,
+        portraitPath,
+        portraitSource,
+        documentType: fields.documentType,
+        extractedName: fields.name || null,
+        extractedAge: fields.age ?? null,
+        extractedDob: fields.dob || null,
+        documentNumber: fields.documentNumber || null,
+        aadhaarNumber: fields.aadhaarNumber || null,
+        gender: fields.gender || null,
+        yearOfBirth: fields.yearOfBirth || null,
+        address: fields.address || null,
+        nationality: fields.nationality || null,
+        expiryDate: fields.expiryDate || null,
+        fieldConfidence,
+        qrVerified: verification.qrVerified || secureQr?.status === 'verified',
+        qualityFeedback: withFraudSignals(verification.qualityFeedback, fraudSignals),
+      });
+      stored = true;
+
+      res.json({
+        success: true,
+        verificationId: verification.id,
+        extractedData: {
+          ...fields,
+          age: updated?.extractedAge ?? undefined,
+          documentType: updated?.documentType,
+          fieldConfidence,
+          qrStatus: secureQr?.status,
+          qrVerified: updated?.qrVerified,
+          cardDetected: rectification.cardDetected,
+          fraudSignals,
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof OcrPoolBusyError) {
+        return res.status(503).json({ message: 'Document processing is busy. Please try again shortly.' });
+      }
+      console.error('Document back upload error:', error);
+      res.status(500).json({ message: 'Failed to process the back of the document' });
+    } finally {
+      const leftovers = [req.file?.path, stored ? undefined : rectifiedPath].filter((file): file is string => !!file);
+      await Promise.all(leftovers.map(file => secureFileDelete(file).catch(error => console.error('Failed to delete upload:', error))));
+    }
+  });
+
+  // Aadhaar Paperless Offline e-KYC: the signed XML replaces the document photo and
+  // OCR entirely, so the record is created as a high-assurance source
+  app.post('/api/upload-ekyc', uploadRateLimit, ekycUpload.single('ekyc'), async (req, res) => {
+    try {
+      const fileValidation = validateUploadedFile(req.file, { zipOnly: true });
+      if (!req.file || !fileValidation.isValid) {
+        return res.status(400).json({ message: fileValidation.error || 'No file uploaded' });
+      }
+
+      // The archive is only needed until its contents are verified
+      let ekyc;
+      try {
+        ekyc = await offlineEkycVerifier.read(req.file.path, String(req.body.shareCode || '').trim());
+      } finally {
+        await secureFileDelete(req.file.path);
+      }
+
+      const fields = offlineEkycToFields(ekyc);
+      const dob = fields.dob ? parseDate(fields.dob, 'aadhaar') : undefined;
+      const age = dob ? calculateAge(dob, new Date()) : undefined;
+
+      const photoPath = req.file.path + '_ekyc_photo.jpg';
+      let verification: VerificationRecord;
+      try {
+        await fs.promises.writeFile(photoPath, ekyc.photo);
+        verification = await storage.createVerificationRecord({
+          documentPath: photoPath,
+          selfiePath: '', // Will be updated when selfie is uploaded
+          portraitPath: photoPath,
+          portraitSource: 'offline_ekyc',
+          extractedName: fields.name || null,
+          extractedAge: age ?? null,
+          extractedDob: fields.dob || null,
+          documentType: 'aadhaar',
+          gender: fields.gender || null,
+          address: fields.address || null,
+          documentSource: 'offline_ekyc',
+          assuranceLevel: 'high',
+          status: 'document_processed',
+        });
+      } catch (error) {
+        // Without a record nothing refers to the decrypted photo
+        await secureFileDelete(photoPath).catch(deleteError => console.error('Failed to delete upload:', deleteError));
+        throw error;
+      }
+      linkHandoff(req.body.handoffSessionId, verification.id);
+
+      res.json({
+        success: true,
+        verificationId: verification.id,
+        extractedData: {
+          name: fields.name,
+          age,
+          dob: fields.dob,
+          documentType: 'aadhaar',
+          gender: fields.gender,
+          address: fields.address,
+          documentSource: verification.documentSource,
+          assuranceLevel: verification.assuranceLevel,
+          backSideExpected: false,
+          fraudSignals: [],
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof OfflineEkycError) {
+        // A server without the certificate cannot verify anything the user sends
+        const status = error.code === 'ekyc_certificate_missing' ? 503 : 400;
+        return res.status(status).json({ message: error.message, code: error.code });
+      }
+      console.error('Offline e-KYC upload error:', error);
+      res.status(500).json({ message: 'Failed to process the Offline e-KYC file' });
     }
   });
 
   // Upload selfie endpoint
   app.post('/api/upload-selfie', uploadRateLimit, upload.single('selfie'), async (req, res) => {
+    // Rejected and failed uploads are deleted; only a selfie stored on the record is kept
+    let stored = false;
     try {
       // Validate uploaded file
       const fileValidation = validateUploadedFile(req.file);
@@ -523,28 +1078,155 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Verification record not found' });
       }
 
-      // Update verification record with selfie path
+      // Selfies without one clear, frontal, uncovered face are turned away with retake guidance
+      const faces = await faceAnalyzer.detectFaces(req.file.path);
+      const faceCheck = await checkFaceCapture(req.file.path, 'selfie', faces);
+      if (faceCheck.reasons.length > 0) {
+        return res.status(422).json({
+          message: 'The selfie does not show one clear view of your face',
+          code: 'face_check_failed',
+          reasons: faceCheck.reasons,
+          faceCount: faceCheck.faceCount,
+          pose: faceCheck.pose,
+          eyeOpenness: faceCheck.eyeOpenness,
+          feedback: { face: faceCheck.guidance },
+        });
+      }
+
+      // Photos of screens and prints are turned away before they reach processing
+      const attack = await assessPresentationAttack(req.file.path, faces);
+      if (attack.spoofScore > SPOOF_SCORE_THRESHOLD) {
+        return res.status(422).json({
+          message: 'This selfie looks like a photo of a screen or a printed picture',
+          code: 'presentation_attack_suspected',
+          spoofScore: attack.spoofScore,
+          reasons: attack.reasons,
+          feedback: {
+            face: attack.reasons.length > 0
+              ? attack.reasons.map(reason => PRESENTATION_ATTACK_GUIDANCE[reason])
+              : ['Take a live selfie of your own face, not a photo of a picture or screen.'],
+          },
+        });
+      }
+
+      // A new selfie needs a new liveness check, since liveness frames are matched against the selfie
       await storage.updateVerificationRecord(parseInt(verificationId), {
         selfiePath: req.file.path,
         status: 'selfie_uploaded',
+        spoofScore: attack.spoofScore,
+        spoofReasons: attack.reasons,
+        livenessChallenge: null,
+        livenessOutcome: null,
+        livenessScore: null,
+        livenessResult: null,
       });
+      stored = true;
+      handoffSessions.notify(parseInt(verificationId), 'selfie_uploaded');
+
+      // Replacing an earlier selfie
+      if (verification.selfiePath && verification.selfiePath !== req.file.path) {
+        await secureFileDelete(verification.selfiePath).catch(error => console.error('Failed to delete previous selfie:', error));
+      }
 
-      res.json({ success: true });
+      res.json({ success: true, spoofScore: attack.spoofScore, reasons: attack.reasons });
 
     } catch (error) {
       console.error('Selfie upload error:', error);
       res.status(500).json({ message: 'Failed to upload selfie' });
+    } finally {
+      if (req.file && !stored) {
+        await secureFileDelete(req.file.path).catch(error => console.error('Failed to delete upload:', error));
+      }
+    }
+  });
+
+  // Issues a random sequence of actions for the user to perform on camera
+  app.post('/api/verification/:id/liveness-challenge', async (req, res) => {
+    try {
+      const verification = await storage.getVerificationRecord(parseInt(req.params.id));
+      if (!verification) {
+        return res.status(404).json({ message: 'Verification record not found' });
+      }
+
+      if (!verification.selfiePath) {
+        return res.status(400).json({ message: 'Selfie not uploaded' });
+      }
+
+      const challenge = issueLivenessChallenge();
+      await storage.updateVerificationRecord(verification.id, { livenessChallenge: challenge });
+
+      res.json({ challengeId: challenge.id, prompts: challenge.prompts, expiresAt: challenge.expiresAt });
+
+    } catch (error) {
+      console.error('Liveness challenge error:', error);
+      res.status(500).json({ message: 'Failed to issue liveness challenge' });
+    }
+  });
+
+  // Checks a recorded frame sequence against the open challenge. Each challenge can be answered once.
+  app.post('/api/verification/:id/liveness', livenessRateLimit, livenessUpload.array('frames', LIVENESS_FRAME_LIMIT), async (req, res) => {
+    try {
+      const verification = await storage.getVerificationRecord(parseInt(req.params.id));
+      if (!verification) {
+        return res.status(404).json({ message: 'Verification record not found' });
+      }
+
+      const challenge = verification.livenessChallenge;
+      if (!challenge || challenge.id !== req.body.challengeId) {
+        return res.status(409).json({ message: 'No matching liveness challenge. Request a new one.', code: 'liveness_challenge_invalid' });
+      }
+
+      await storage.updateVerificationRecord(verification.id, { livenessChallenge: null });
+      if (isChallengeExpired(challenge)) {
+        return res.status(410).json({ message: 'The liveness challenge has expired. Request a new one.', code: 'liveness_challenge_expired' });
+      }
+
+      const frames = ((req.files as Express.Multer.File[] | undefined) || []).map(file => file.buffer);
+      for (const frame of frames) {
+        const { format } = await sharp(frame).metadata().catch(() => ({ format: undefined }));
+        if (format !== 'jpeg') {
+          return res.status(400).json({ message: 'Liveness frames must be JPEG images', code: 'liveness_invalid_frame' });
+        }
+      }
+
+      const liveness = await checkLiveness(challenge, frames, {
+        mirrored: req.body.mirrored === 'true',
+        selfiePath: verification.selfiePath,
+      });
+      await storage.updateVerificationRecord(verification.id, {
+        livenessOutcome: liveness.outcome,
+        livenessScore: liveness.score,
+        livenessResult: liveness.result,
+      });
+      if (liveness.outcome === 'passed') {
+        handoffSessions.notify(verification.id, 'liveness_passed');
+      }
+
+      res.json(liveness);
+
+    } catch (error) {
+      console.error('Liveness check error:', error);
+      res.status(500).json({ message: 'Failed to check liveness' });
     }
   });
 
   // Process verification endpoint with security
   app.post('/api/process-verification', verificationRateLimit, async (req, res) => {
+    // Released if processing fails after this request claimed the record
+    let claimed: VerificationRecord | null = null;
     try {
       const { verificationId } = req.body;
       if (!verificationId) {
         return res.status(400).json({ message: 'Verification ID required' });
       }
 
+      // The age gate is deployment configuration. The request comes from the person
+      // being verified, who could otherwise pick a lower gate, so a policy in it is refused.
+      if (req.body.agePolicy !== undefined) {
+        return res.status(400).json({ message: 'The age policy is set by the server and cannot be chosen in the request', code: 'age_policy_not_accepted' });
+      }
+      const agePolicy = agePolicies.getDefaultPolicy();
+
       const verification = await storage.getVerificationRecord(parseInt(verificationId));
       if (!verification) {
         return res.status(404).json({ message: 'Verification record not found' });
@@ -554,33 +1236,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Selfie not uploaded' });
       }
 
-      // Set status to processing
-      await storage.updateVerificationRecord(parseInt(verificationId), {
-        status: 'processing',
-      });
+      // Hashed before the record is claimed, so missing files cannot leave it processing
+      const inputHashes = hashVerificationInputs(verification);
 
-      // Enhanced face comparison with confidence scoring
-      const faceAnalysis = await calculateAdvancedFaceMatch(verification.documentPath, verification.selfiePath);
-      
-      // Estimate age from facial features
-      const ageEstimation = await estimateAgeFromFace(verification.selfiePath);
-      
-      // Determine verification results with confidence scoring
-      const identityVerified = faceAnalysis.score >= 50 && faceAnalysis.confidence >= 60;
-      
-      // Use estimated age if available and confident, otherwise fall back to extracted age
-      const finalAge = (ageEstimation.age !== null && ageEstimation.confidence >= 60) 
-        ? ageEstimation.age 
-        : verification.extractedAge;
-      const ageVerified = finalAge !== null && finalAge >= 18;
+      // With a handoff, both devices can start processing; only the first claims the record
+      if (!await claimVerification(storage, verification)) {
+        return res.status(409).json({ message: 'Verification is already being processed', code: 'verification_in_progress' });
+      }
+      claimed = verification;
+      handoffSessions.notify(verification.id, 'processing');
+
+      const { faceAnalysis, ageEstimation, ageDecision, identityVerified, ageVerified, finalAge } = await runVerificationChecks(verification, agePolicy);
+
+      // Keep document findings recorded at upload time alongside the new feedback
+      const documentFeedback = verification.qualityFeedback ? JSON.parse(verification.qualityFeedback) : {};
 
       // Compile all feedback for storage
       const allFeedback = {
+        document: documentFeedback.document || [],
+        fraudSignals: documentFeedback.fraudSignals || [],
         face: faceAnalysis.feedback || [],
         age: ageEstimation.feedback || [],
         scores: {
           faceMatch: faceAnalysis.score,
           faceConfidence: faceAnalysis.confidence,
+          faceDistance: faceAnalysis.distance,
           ageConfidence: ageEstimation.confidence
         }
       };
@@ -589,14 +1269,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedVerification = await storage.updateVerificationRecord(parseInt(verificationId), {
         faceMatchScore: faceAnalysis.score,
         faceConfidence: faceAnalysis.confidence,
+        faceModelVersion: faceAnalysis.modelVersion,
+        faceBoxes: faceAnalysis.faceBoxes,
         ageConfidence: ageEstimation.confidence,
         qualityFeedback: JSON.stringify(allFeedback),
         identityVerified,
         ageVerified,
         detectedAge: ageEstimation.age,
+        detectedAgeLow: ageEstimation.low,
+        detectedAgeHigh: ageEstimation.high,
+        ageSource: ageDecision.ageSource,
+        agePolicy: agePolicy.name,
+        ageDecision,
+        pipelineVersion: PIPELINE_VERSION,
+        inputHashes,
         status: 'completed',
         completedAt: new Date(),
       });
+      handoffSessions.notify(verification.id, 'completed');
 
       res.json({
         success: true,
@@ -605,19 +1295,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ageVerified,
           faceMatchScore: faceAnalysis.score,
           faceConfidence: faceAnalysis.confidence,
+          faceModelVersion: faceAnalysis.modelVersion,
+          faceBoxes: faceAnalysis.faceBoxes,
+          livenessOutcome: verification.livenessOutcome,
+          livenessScore: verification.livenessScore,
           extractedAge: verification.extractedAge,
           detectedAge: ageEstimation.age,
+          detectedAgeLow: ageEstimation.low,
+          detectedAgeHigh: ageEstimation.high,
           ageConfidence: ageEstimation.confidence,
+          ageSource: ageDecision.ageSource,
+          agePolicy: agePolicy.name,
+          ageDecision,
           extractedName: verification.extractedName,
           finalAge: finalAge,
+          pipelineVersion: PIPELINE_VERSION,
+          inputHashes,
           feedback: {
+            document: allFeedback.document,
             face: faceAnalysis.feedback || [],
             age: ageEstimation.feedback || [],
             overall: [
-              `Identity verification: ${faceAnalysis.score}% match (${faceAnalysis.confidence}% confidence)`,
-              `Age estimation: ${ageEstimation.age} years (${ageEstimation.confidence}% confidence)`,
-              identityVerified ? 'Identity verification passed' : 'Identity verification failed - score below 50%',
-              ageVerified ? 'Age verification passed - 18 or older' : 'Age verification failed - under 18'
+              `Identity verification: similarity ${faceAnalysis.score}/100, not a probability (${faceAnalysis.confidence}% confidence)`,
+              ageEstimation.age !== null
+                ? `Age estimation: ${ageEstimation.age} years, likely ${ageEstimation.low}-${ageEstimation.high} (${ageEstimation.confidence}% confidence)`
+                : 'Age estimation: no face found',
+              identityVerified
+                ? 'Identity verification passed'
+                : verification.livenessOutcome !== 'passed' ? 'Identity verification failed - liveness check not passed' : 'Identity verification failed - similarity below the threshold of 50',
+              `Liveness check: ${verification.livenessOutcome || 'not performed'}${verification.livenessScore !== null ? ` (score ${verification.livenessScore})` : ''}`,
+              ageVerified
+                ? `Age verification passed - ${agePolicy.minimumAge} or older under policy ${agePolicy.name} (from ${ageDecision.ageSource === 'face' ? 'facial age' : 'document'})`
+                : ageDecision.outcome === 'manual_review'
+                  ? `Age verification needs manual review under policy ${agePolicy.name}`
+                  : `Age verification failed under policy ${agePolicy.name}`,
+              ...ageDecision.reasons.map(reason => reason.message)
             ]
           }
         }
@@ -625,10 +1337,186 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     } catch (error) {
       console.error('Verification processing error:', error);
+      // Release the record so processing can be retried
+      if (claimed) await releaseVerification(storage, claimed);
       res.status(500).json({ message: 'Failed to process verification' });
     }
   });
 
+  // Re-runs the checks on the stored inputs and reports whether the outcome matches
+  // the stored one. The record itself is left as it was.
+  app.post('/api/verification/:id/reprocess', verificationRateLimit, async (req, res) => {
+    try {
+      const verification = await storage.getVerificationRecord(parseInt(req.params.id));
+      if (!verification) {
+        return res.status(404).json({ message: 'Verification record not found' });
+      }
+
+      if (verification.status !== 'completed' || !verification.inputHashes) {
+        return res.status(409).json({ message: 'Verification has not been processed yet', code: 'not_processed' });
+      }
+
+      let inputHashes: InputHashes;
+      try {
+        inputHashes = hashVerificationInputs(verification);
+      } catch (error) {
+        return res.status(410).json({ message: 'The uploaded files are no longer available', code: 'inputs_missing' });
+      }
+      if (!sameInputs(inputHashes, verification.inputHashes)) {
+        return res.status(409).json({ message: 'The uploaded files have changed since the verification was processed', code: 'inputs_changed' });
+      }
+
+      // Judged against the policy as it was applied, even if the policy file has changed since
+      const agePolicy = verification.ageDecision?.policy || agePolicies.getDefaultPolicy();
+      const checks = await runVerificationChecks(verification, agePolicy);
+      const stored = {
+        identityVerified: verification.identityVerified,
+        ageVerified: verification.ageVerified,
+        faceMatchScore: verification.faceMatchScore,
+        faceConfidence: verification.faceConfidence,
+        detectedAge: verification.detectedAge,
+        detectedAgeLow: verification.detectedAgeLow,
+        detectedAgeHigh: verification.detectedAgeHigh,
+        ageConfidence: verification.ageConfidence,
+        ageSource: verification.ageSource,
+        ageOutcome: verification.ageDecision?.outcome ?? null,
+      };
+      const rerun = {
+        identityVerified: checks.identityVerified,
+        ageVerified: checks.ageVerified,
+        faceMatchScore: checks.faceAnalysis.score,
+        faceConfidence: checks.faceAnalysis.confidence,
+        detectedAge: checks.ageEstimation.age,
+        detectedAgeLow: checks.ageEstimation.low,
+        detectedAgeHigh: checks.ageEstimation.high,
+        ageConfidence: checks.ageEstimation.confidence,
+        ageSource: checks.ageDecision.ageSource,
+        ageOutcome: checks.ageDecision.outcome,
+      };
+      const differences = (Object.keys(stored) as (keyof typeof stored)[]).filter(key => stored[key] !== rerun[key]);
+
+      res.json({
+        reproducible: differences.length === 0,
+        differences,
+        pipelineVersion: PIPELINE_VERSION,
+        storedPipelineVersion: verification.pipelineVersion,
+        agePolicy: agePolicy.name,
+        inputHashes,
+        stored,
+        rerun,
+      });
+
+    } catch (error) {
+      console.error('Verification reprocessing error:', error);
+      res.status(500).json({ message: 'Failed to reprocess verification' });
+    }
+  });
+
+  // Opens a handoff to a phone. The desktop shows the QR code and follows along on the events stream.
+  app.post('/api/handoff', handoffRateLimit, async (req, res) => {
+    try {
+      let verificationId: number | null = null;
+      if (req.body.verificationId) {
+        const verification = await storage.getVerificationRecord(parseInt(req.body.verificationId));
+        if (!verification) {
+          return res.status(404).json({ message: 'Verification record not found' });
+        }
+        if (verification.status === 'processing' || verification.status === 'completed') {
+          return res.status(409).json({ message: 'This verification has already been submitted', code: 'handoff_not_allowed' });
+        }
+        verificationId = verification.id;
+      }
+
+      const session = handoffSessions.create(verificationId);
+      const url = handoffUrl(req, session);
+      res.json({
+        sessionId: session.id,
+        url,
+        qrCode: await QRCode.toDataURL(url, { margin: 1, width: 256 }),
+        expiresAt: session.tokenExpiresAt.toISOString(),
+        ...handoffSessions.toUpdate(session),
+      });
+
+    } catch (error) {
+      console.error('Handoff creation error:', error);
+      res.status(500).json({ message: 'Failed to start the handoff' });
+    }
+  });
+
+  // Spends the token from the QR code; the phone carries on from the session's step
+  app.post('/api/handoff/redeem', handoffRedeemRateLimit, (req, res) => {
+    try {
+      const session = handoffSessions.redeem(String(req.body.token || ''));
+      res.json({ sessionId: session.id, ...handoffSessions.toUpdate(session) });
+
+    } catch (error) {
+      if (error instanceof HandoffError) {
+        return res.status(HANDOFF_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+      }
+      console.error('Handoff redeem error:', error);
+      res.status(500).json({ message: 'Failed to open the handoff' });
+    }
+  });
+
+  // Server-sent events: the current step, then one event per step the phone finishes
+  app.get('/api/handoff/:sessionId/events', (req, res) => {
+    let session: HandoffSession;
+    try {
+      session = handoffSessions.get(req.params.sessionId);
+    } catch (error) {
+      if (error instanceof HandoffError) {
+        return res.status(HANDOFF_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code });
+      }
+      throw error;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    const send = (update: object) => res.write(`data: ${JSON.stringify(update)}\n\n`);
+    send(handoffSessions.toUpdate(session));
+    if (session.step === 'completed') return res.end();
+
+    const unsubscribe = handoffSessions.subscribe(session.id, update => {
+      send(update);
+      if (update.step === 'completed') res.end();
+    });
+    // Proxies close connections that stay quiet
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  });
+
+  // Age policies in the policy file, and the one this deployment applies
+  app.get('/api/age-policies', (_req, res) => {
+    res.json({ policies: agePolicies.load(), defaultPolicy: agePolicies.getDefaultPolicy().name });
+  });
+
+  // OCR worker pool statistics
+  app.get('/api/ocr/stats', (_req, res) => {
+    res.json(ocrWorkerPool.getStats());
+  });
+
+  // The portrait the selfie is compared with
+  app.get('/api/verification/:id/portrait', async (req, res) => {
+    try {
+      const verification = await storage.getVerificationRecord(parseInt(req.params.id));
+      if (!verification?.portraitPath || !fs.existsSync(verification.portraitPath)) {
+        return res.status(404).json({ message: 'Portrait not found' });
+      }
+
+      res.sendFile(path.resolve(verification.portraitPath));
+
+    } catch (error) {
+      console.error('Get portrait error:', error);
+      res.status(500).json({ message: 'Failed to get portrait' });
+    }
+  });
+
   // Get verification status endpoint
   app.get('/api/verification/:id', async (req, res) => {
     try {
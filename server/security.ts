@@ -18,6 +18,25 @@ const verificationRateLimiter = new RateLimiterMemory({
   duration: 3600, // Per hour
 });
 
+const livenessRateLimiter = new RateLimiterMemory({
+  keyPrefix: 'liveness_limit',
+  points: 6, // Number of liveness attempts
+  duration: 900, // Per 15 minutes
+});
+
+const handoffRateLimiter = new RateLimiterMemory({
+  keyPrefix: 'handoff_limit',
+  points: 10, // Number of phone codes created
+  duration: 900, // Per 15 minutes
+});
+
+// Tighter than creation: each failed redeem is a guess at a token
+const handoffRedeemRateLimiter = new RateLimiterMemory({
+  keyPrefix: 'handoff_redeem_limit',
+  points: 5, // Number of redeem attempts
+  duration: 900, // Per 15 minutes
+});
+
 const generalRateLimiter = new RateLimiterMemory({
   keyPrefix: 'general_limit',
   points: 100, // Number of requests
@@ -87,13 +106,57 @@ export const verificationRateLimit = async (req: any, res: any, next: any) => {
   }
 };
 
+// Rate limiting middleware for liveness frame submissions
+export const livenessRateLimit = async (req: any, res: any, next: any) => {
+  try {
+    const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
+    await livenessRateLimiter.consume(clientIP);
+    next();
+  } catch (rejRes: any) {
+    res.status(429).json({
+      message: 'Liveness attempt limit exceeded. Please wait before trying again.',
+      retryAfter: Math.round(rejRes.msBeforeNext / 1000) || 1,
+    });
+  }
+};
+
+// Rate limiting middleware for creating phone handoff codes
+export const handoffRateLimit = async (req: any, res: any, next: any) => {
+  try {
+    const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
+    await handoffRateLimiter.consume(clientIP);
+    next();
+  } catch (rejRes: any) {
+    res.status(429).json({
+      message: 'Too many phone codes requested. Please wait before trying again.',
+      retryAfter: Math.round(rejRes.msBeforeNext / 1000) || 1,
+    });
+  }
+};
+
+// Rate limiting middleware for redeeming phone handoff links
+export const handoffRedeemRateLimit = async (req: any, res: any, next: any) => {
+  try {
+    const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
+    await handoffRedeemRateLimiter.consume(clientIP);
+    next();
+  } catch (rejRes: any) {
+    res.status(429).json({
+      message: 'Too many attempts to open a phone link. Please wait before trying again.',
+      retryAfter: Math.round(rejRes.msBeforeNext / 1000) || 1,
+    });
+  }
+};
+
 // Input validation middleware
 export const validateFileUpload = [
   body('verificationId').optional().isInt().withMessage('Invalid verification ID'),
 ];
 
-// File validation and sanitization
-export function validateUploadedFile(file: any): { isValid: boolean; error?: string } {
+export const ZIP_MIME_TYPES = ['application/zip', 'application/x-zip-compressed'];
+
+// File validation and sanitization. PDFs are only accepted for ID documents.
+export function validateUploadedFile(file: any, options: { allowPdf?: boolean; zipOnly?: boolean } = {}): { isValid: boolean; error?: string } {
   if (!file) {
     return { isValid: false, error: 'No file uploaded' };
   }
@@ -103,14 +166,27 @@ export function validateUploadedFile(file: any): { isValid: boolean; error?: str
     return { isValid: false, error: 'File size exceeds 5MB limit' };
   }
 
+  // Offline e-KYC downloads are ZIP archives and nothing else
+  if (options.zipOnly) {
+    const isZip = ZIP_MIME_TYPES.includes(file.mimetype) && file.originalname.toLowerCase().endsWith('.zip');
+    return isZip ? { isValid: true } : { isValid: false, error: 'Invalid file type. Only ZIP files are allowed' };
+  }
+
   // Check file type
   const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+  if (options.allowPdf) allowedTypes.push('application/pdf');
   if (!allowedTypes.includes(file.mimetype)) {
-    return { isValid: false, error: 'Invalid file type. Only JPEG, PNG, and WebP are allowed' };
+    return {
+      isValid: false,
+      error: options.allowPdf
+        ? 'Invalid file type. Only JPEG, PNG, WebP and PDF are allowed'
+        : 'Invalid file type. Only JPEG, PNG, and WebP are allowed',
+    };
   }
 
   // Check file extension
   const allowedExtensions = ['.jpg', '.jpeg', '.png', '.webp'];
+  if (options.allowPdf) allowedExtensions.push('.pdf');
   const fileExtension = file.originalname.toLowerCase().slice(file.originalname.lastIndexOf('.'));
   if (!allowedExtensions.includes(fileExtension)) {
     return { isValid: false, error: 'Invalid file extension' };
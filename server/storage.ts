@@ -8,6 +8,8 @@ export interface IStorage {
   createVerificationRecord(record: InsertVerification): Promise<VerificationRecord>;
   getVerificationRecord(id: number): Promise<VerificationRecord | undefined>;
   updateVerificationRecord(id: number, updates: Partial<VerificationRecord>): Promise<VerificationRecord | undefined>;
+  // Compare-and-set on the status: changes it only while it still equals `expected`
+  setVerificationStatus(id: number, expected: string, status: string): Promise<VerificationRecord | undefined>;
   getAllVerificationRecords(): Promise<VerificationRecord[]>;
 }
 
@@ -46,16 +48,46 @@ export class MemStorage implements IStorage {
     const verification: VerificationRecord = {
       ...record,
       id,
+      documentBackPath: record.documentBackPath || null,
+      portraitPath: record.portraitPath || null,
+      portraitSource: record.portraitSource || null,
       extractedName: record.extractedName || null,
       extractedAge: record.extractedAge || null,
-      detectedAge: record.detectedAge || null,
+      detectedAge: record.detectedAge ?? null,
+      detectedAgeLow: record.detectedAgeLow ?? null,
+      detectedAgeHigh: record.detectedAgeHigh ?? null,
+      ageSource: record.ageSource || null,
+      agePolicy: record.agePolicy || null,
+      ageDecision: record.ageDecision || null,
       extractedDob: record.extractedDob || null,
+      documentType: record.documentType || 'unknown',
+      documentNumber: record.documentNumber || null,
+      aadhaarNumber: record.aadhaarNumber || null,
+      gender: record.gender || null,
+      yearOfBirth: record.yearOfBirth || null,
+      address: record.address || null,
+      nationality: record.nationality || null,
+      expiryDate: record.expiryDate || null,
       faceMatchScore: record.faceMatchScore || null,
       faceConfidence: record.faceConfidence || null,
+      faceModelVersion: record.faceModelVersion || null,
+      faceBoxes: record.faceBoxes || null,
       ageConfidence: record.ageConfidence || null,
       ocrConfidence: record.ocrConfidence || null,
       ocrLanguage: record.ocrLanguage || null,
+      fieldConfidence: record.fieldConfidence || null,
+      qrVerified: record.qrVerified || false,
+      documentSource: record.documentSource || 'ocr',
+      assuranceLevel: record.assuranceLevel || 'standard',
       qualityFeedback: record.qualityFeedback || null,
+      livenessChallenge: record.livenessChallenge || null,
+      livenessOutcome: record.livenessOutcome || null,
+      livenessScore: record.livenessScore ?? null,
+      livenessResult: record.livenessResult || null,
+      spoofScore: record.spoofScore ?? null,
+      spoofReasons: record.spoofReasons || null,
+      pipelineVersion: record.pipelineVersion || null,
+      inputHashes: record.inputHashes || null,
       ageVerified: record.ageVerified || false,
       identityVerified: record.identityVerified || false,
       status: record.status || 'pending',
@@ -79,6 +111,16 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async setVerificationStatus(id: number, expected: string, status: string): Promise<VerificationRecord | undefined> {
+    // No await between the check and the write, so concurrent requests cannot both pass
+    const existing = this.verifications.get(id);
+    if (!existing || existing.status !== expected) return undefined;
+
+    const updated: VerificationRecord = { ...existing, status };
+    this.verifications.set(id, updated);
+    return updated;
+  }
+
   async getAllVerificationRecords(): Promise<VerificationRecord[]> {
     return Array.from(this.verifications.values());
   }
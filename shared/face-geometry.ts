@@ -0,0 +1,57 @@
+// Measurements from the 68 face landmarks (iBUG 300-W order), shared by the
+// server checks and the live capture guidance in the browser. Angles are rough
+// estimates from a 2D point set, good enough to tell a frontal face from a turned one.
+
+export interface FacePoint {
+  x: number;
+  y: number;
+}
+
+export interface HeadPose {
+  // Degrees. Yaw is positive when the face turns towards the image's right,
+  // pitch when the chin lifts, roll when the head leans towards the image's right.
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+// Nose tip distance below the eyes, as a share of the eye-to-mouth distance, for a level head
+const NEUTRAL_PITCH_RATIO = 0.58;
+// Degrees of pitch per unit change in that ratio
+const PITCH_SCALE = 100;
+
+export function distance(a: FacePoint, b: FacePoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+export function midpoint(a: FacePoint, b: FacePoint): FacePoint {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+// Eye aspect ratio: eyelid gap over eye width, averaged over both eyes (points 36-41 and 42-47)
+export function eyeOpenness(points: FacePoint[]): number {
+  const eye = (p: FacePoint[]) => (distance(p[1], p[5]) + distance(p[2], p[4])) / (2 * distance(p[0], p[3]));
+  return (eye(points.slice(36, 42)) + eye(points.slice(42, 48))) / 2;
+}
+
+// Where the nose tip (30) sits between the outer eye corners (36, 45); 0.5 when facing the camera
+export function noseOffset(points: FacePoint[]): number {
+  return (points[30].x - points[36].x) / (points[45].x - points[36].x) - 0.5;
+}
+
+export function headPose(points: FacePoint[]): HeadPose {
+  const leftEye = midpoint(points[36], points[39]);
+  const rightEye = midpoint(points[42], points[45]);
+  const eyes = midpoint(leftEye, rightEye);
+  const mouth = midpoint(points[48], points[54]);
+
+  const roll = Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x);
+  const yaw = Math.asin(Math.max(-1, Math.min(1, 2 * noseOffset(points))));
+  const pitchRatio = distance(points[30], eyes) / distance(mouth, eyes);
+
+  return {
+    yaw: Math.round(yaw * 180 / Math.PI),
+    pitch: Math.round((NEUTRAL_PITCH_RATIO - pitchRatio) * PITCH_SCALE),
+    roll: Math.round(roll * 180 / Math.PI),
+  };
+}
@@ -1,7 +1,137 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Fields that get their own OCR confidence, computed from Tesseract symbol and word confidences
+export const confidenceFields = ["name", "dob", "documentNumber"] as const;
+export type ConfidenceField = typeof confidenceFields[number];
+
+// Below this a field is flagged for the user to double-check
+export const LOW_FIELD_CONFIDENCE = 60;
+
+export const fieldConfidenceSchema = z.object({
+  confidence: z.number(), // 0-100, mean over the characters of the extracted value
+  minSymbolConfidence: z.number(), // The weakest single character
+  source: z.enum(["page", "zone", "mrz", "qr"]), // Whole-page OCR, a layout template zone, the MRZ, or a signed Aadhaar QR
+  lowConfidence: z.boolean(),
+});
+
+export const fieldConfidencesSchema = z.object({
+  name: fieldConfidenceSchema.optional(),
+  dob: fieldConfidenceSchema.optional(),
+  documentNumber: fieldConfidenceSchema.optional(),
+});
+
+export type FieldConfidence = z.infer<typeof fieldConfidenceSchema>;
+export type FieldConfidences = z.infer<typeof fieldConfidencesSchema>;
+
+export const faceBoxSchema = z.object({
+  x: z.number(), // Pixels in the compared image
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  score: z.number(), // Detector confidence, 0-1
+});
+
+// Every face found on each side of the comparison, largest (the one compared) first
+export const faceBoxesSchema = z.object({
+  document: z.array(faceBoxSchema),
+  selfie: z.array(faceBoxSchema),
+});
+
+export type FaceBoxes = z.infer<typeof faceBoxesSchema>;
+
+// SHA-256 of each uploaded file the checks read, taken when the verification is processed
+export const inputHashesSchema = z.object({
+  document: z.string(),
+  documentBack: z.string().optional(),
+  selfie: z.string(),
+  portrait: z.string().optional(), // Holder's photo compared with the selfie, when one was stored
+});
+
+export type InputHashes = z.infer<typeof inputHashesSchema>;
+
+// A named age gate. The face alone can pass someone only when the low end of its
+// age interval reaches minimumAge + faceBuffer (Challenge 25 is minimumAge 18, faceBuffer 7).
+export const agePolicySchema = z.object({
+  name: z.string().regex(/^[a-z0-9-]+$/),
+  description: z.string().optional(),
+  minimumAge: z.number().int().min(0).max(90),
+  faceBuffer: z.number().int().min(0).max(30),
+  onDisagreement: z.enum(["document", "fail", "manual_review"]), // Document age outside the facial age interval
+  onMissingDob: z.enum(["face", "fail", "manual_review"]), // No age could be read from the document
+});
+
+export const ageDecisionReasonSchema = z.object({
+  code: z.enum([
+    "document_age_meets_minimum",
+    "document_age_below_minimum",
+    "dob_missing",
+    "face_clears_buffer",
+    "face_within_buffer",
+    "face_near_minimum",
+    "face_unavailable",
+    "ages_disagree",
+  ]),
+  message: z.string(),
+});
+
+// The applied policy is copied in so the decision can be explained after the policy file changes
+export const ageDecisionSchema = z.object({
+  policy: agePolicySchema,
+  outcome: z.enum(["pass", "fail", "manual_review"]),
+  ageSource: z.enum(["face", "document"]).nullable(),
+  reasons: z.array(ageDecisionReasonSchema),
+});
+
+// Actions a liveness challenge can ask for; turns are the user's own left and right
+export const livenessPrompts = ["blink", "turn_left", "turn_right", "smile"] as const;
+export type LivenessPrompt = typeof livenessPrompts[number];
+
+export const livenessChallengeSchema = z.object({
+  id: z.string(),
+  prompts: z.array(z.enum(livenessPrompts)),
+  issuedAt: z.string(), // ISO 8601
+  expiresAt: z.string(),
+});
+
+export const livenessResultSchema = z.object({
+  challengeId: z.string(),
+  prompts: z.array(z.object({
+    prompt: z.enum(livenessPrompts),
+    passed: z.boolean(),
+    frame: z.number().nullable(), // Index of the frame where the action was seen
+  })),
+  framesAnalysed: z.number(),
+  faceFrames: z.number(), // Frames with a detectable face
+  reasons: z.array(z.string()), // Codes for every check that failed
+});
+
+export type LivenessChallenge = z.infer<typeof livenessChallengeSchema>;
+export type LivenessResult = z.infer<typeof livenessResultSchema>;
+
+// Progress of a verification handed off from a desktop to a phone, in order
+export const handoffSteps = [
+  "waiting", // QR code shown, not scanned yet
+  "connected", // Phone opened the link
+  "document_uploaded",
+  "selfie_uploaded",
+  "liveness_passed",
+  "processing",
+  "completed",
+] as const;
+export type HandoffStep = typeof handoffSteps[number];
+
+// Sent to the desktop each time the phone finishes a step
+export interface HandoffUpdate {
+  step: HandoffStep;
+  verificationId: number | null;
+}
+
+export type AgePolicy = z.infer<typeof agePolicySchema>;
+export type AgeDecisionReason = z.infer<typeof ageDecisionReasonSchema>;
+export type AgeDecision = z.infer<typeof ageDecisionSchema>;
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
@@ -10,18 +140,48 @@ export const users = pgTable("users", {
 
 export const verificationRecords = pgTable("verification_records", {
   id: serial("id").primaryKey(),
-  documentPath: text("document_path").notNull(),
+  documentPath: text("document_path").notNull(), // Front side
+  documentBackPath: text("document_back_path"), // Back side, for two-sided documents
   selfiePath: text("selfie_path").notNull(),
+  portraitPath: text("portrait_path"), // Holder's photo on its own; compared with the selfie instead of the whole document
+  portraitSource: text("portrait_source"), // template, detected (cropped from the document), secure_qr, offline_ekyc
   extractedName: text("extracted_name"),
   extractedAge: integer("extracted_age"),
   detectedAge: integer("detected_age"), // Age estimated from facial features
+  detectedAgeLow: integer("detected_age_low"), // Heuristic bounds around detectedAge, not a calibrated interval
+  detectedAgeHigh: integer("detected_age_high"),
+  ageSource: text("age_source"), // face, document: which age decided ageVerified
+  agePolicy: text("age_policy"), // Name of the age policy applied
+  ageDecision: jsonb("age_decision").$type<AgeDecision>(), // Outcome of the age policy and why
   extractedDob: text("extracted_dob"),
-  faceMatchScore: integer("face_match_score"), // 0-100
+  documentType: text("document_type").notNull().default("unknown"), // aadhaar, pan, passport, driving_licence, voter_id, unknown
+  documentNumber: text("document_number"), // Primary ID number for the detected document type
+  aadhaarNumber: text("aadhaar_number"), // Verhoeff-validated 12-digit UID
+  gender: text("gender"), // male, female, transgender
+  yearOfBirth: integer("year_of_birth"), // Set when the card prints only the year
+  address: text("address"),
+  nationality: text("nationality"), // ISO 3166 alpha-3 code from the MRZ
+  expiryDate: text("expiry_date"),
+  faceMatchScore: integer("face_match_score"), // Uncalibrated similarity, 0-100; 50 is the match threshold
   faceConfidence: integer("face_confidence"), // Confidence in face match
+  faceModelVersion: text("face_model_version"), // Detection and embedding models that produced the face match
+  faceBoxes: jsonb("face_boxes").$type<FaceBoxes>(),
   ageConfidence: integer("age_confidence"), // Confidence in age estimation
   ocrConfidence: integer("ocr_confidence"), // Confidence in OCR extraction
   ocrLanguage: text("ocr_language"), // Detected language
+  fieldConfidence: jsonb("field_confidence").$type<FieldConfidences>(), // Per-field OCR confidence
+  qrVerified: boolean("qr_verified").default(false), // Fields come from an Aadhaar Secure QR with a valid UIDAI signature
+  documentSource: text("document_source").notNull().default("ocr"), // ocr, offline_ekyc
+  assuranceLevel: text("assurance_level").notNull().default("standard"), // standard, high (UIDAI-signed data, no OCR)
   qualityFeedback: text("quality_feedback"), // JSON string of feedback
+  livenessChallenge: jsonb("liveness_challenge").$type<LivenessChallenge>(), // Open challenge; cleared once frames are submitted
+  livenessOutcome: text("liveness_outcome"), // passed, failed
+  livenessScore: integer("liveness_score"), // 0-100
+  livenessResult: jsonb("liveness_result").$type<LivenessResult>(),
+  spoofScore: integer("spoof_score"), // 0-100, likelihood the selfie is a photo of a screen or print
+  spoofReasons: jsonb("spoof_reasons").$type<string[]>(), // Presentation-attack cues found in the selfie
+  pipelineVersion: text("pipeline_version"), // Version of the checks that produced the scores and decisions
+  inputHashes: jsonb("input_hashes").$type<InputHashes>(),
   ageVerified: boolean("age_verified").default(false),
   identityVerified: boolean("identity_verified").default(false),
   status: text("status").notNull().default("pending"), // pending, processing, completed, failed
@@ -34,7 +194,15 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
-export const insertVerificationSchema = createInsertSchema(verificationRecords).omit({
+export const insertVerificationSchema = createInsertSchema(verificationRecords, {
+  fieldConfidence: fieldConfidencesSchema.nullable().optional(),
+  faceBoxes: faceBoxesSchema.nullable().optional(),
+  inputHashes: inputHashesSchema.nullable().optional(),
+  ageDecision: ageDecisionSchema.nullable().optional(),
+  livenessChallenge: livenessChallengeSchema.nullable().optional(),
+  livenessResult: livenessResultSchema.nullable().optional(),
+  spoofReasons: z.array(z.string()).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   completedAt: true,